@@ -1,90 +1,216 @@
 import express from 'express';
-import { getAuthUrl, exchangeCodeForToken } from './spotify';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as net from 'net';
+import * as readline from 'readline';
+import { getAuthUrl, exchangeCodeForToken, redirectUriFor } from './spotify';
+import type { Settings } from './settings';
+import type { CredentialStore } from './credentials';
 import * as childProcess from 'child_process';
 
-export async function startAuthFlow(): Promise<void> {
-  const app = express();
-  const PORT = 8888;
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
 
-  return new Promise((resolve, reject) => {
-    const server = app.listen(PORT, () => {
-      const authUrl = getAuthUrl();
-      console.log('\n🎵 Opening Spotify authentication in your browser...\n');
-      console.log('If the browser doesn\'t open automatically, visit:');
-      console.log(`\n  ${authUrl}\n`);
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
 
-      // Open browser
-      const command = process.platform === 'darwin' ? 'open' :
-                     process.platform === 'win32' ? 'start' : 'xdg-open';
-      childProcess.exec(`${command} "${authUrl}"`);
-    });
+export interface AuthOptions {
+  clientId: string;
+  redirectUri: string;
+  tokenUrl: string;
+  // Print the URL and read the redirect back from the terminal instead of
+  // opening a browser and listening for it, e.g. over SSH
+  headless: boolean;
+  timeoutMs?: number;
+}
 
-    app.get('/callback', async (req, res) => {
-      const { code, error } = req.query;
-
-      if (error) {
-        const safeError = String(error)
-          .replace(/&/g, '&amp;').replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
-        res.send(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>Authentication Failed</h1>
-              <p>${safeError}</p>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
-        server.close();
-        reject(new Error(`Authentication failed: ${safeError}`));
-        return;
-      }
+export function authOptionsFromSettings(settings: Settings, headless: boolean): AuthOptions {
+  const { clientId, port, redirectUri, tokenUrl } = settings.auth;
+  if (!clientId) {
+    throw new AuthError('No Spotify client id. Set SPOTIFY_CLIENT_ID or run: tune-in config set auth.clientId <id>');
+  }
+  return { clientId, redirectUri: redirectUri ?? redirectUriFor(port), tokenUrl, headless };
+}
 
-      if (!code || typeof code !== 'string') {
-        res.send(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>❌ No Authorization Code</h1>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
-        server.close();
-        reject(new Error('No authorization code received'));
-        return;
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = base64Url(crypto.randomBytes(64));
+  const challenge = base64Url(crypto.createHash('sha256').update(verifier).digest());
+  return { verifier, challenge };
+}
+
+/**
+ * The authorization code from the URL Spotify redirected to. Throws
+ * AuthError if Spotify reported an error or `state` isn't the one we sent,
+ * which would mean the redirect didn't come from our request.
+ */
+export function parseCallback(callbackUrl: string, expectedState: string): string {
+  let params: URLSearchParams;
+  try {
+    params = new URL(callbackUrl.trim(), 'http://127.0.0.1').searchParams;
+  } catch {
+    throw new AuthError('That doesn\'t look like the redirect URL');
+  }
+
+  const error = params.get('error');
+  if (error) throw new AuthError(`Spotify said: ${error}`);
+
+  const state = params.get('state');
+  const a = Buffer.from(state ?? '');
+  const b = Buffer.from(expectedState);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    throw new AuthError('State mismatch: the redirect is not from this login attempt');
+  }
+
+  const code = params.get('code');
+  if (!code) throw new AuthError('No authorization code received');
+  return code;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function page(title: string, message: string): string {
+  return `
+    <html>
+      <body style="font-family: system-ui; padding: 40px; text-align: center;">
+        <h1>${title}</h1>
+        <p>${escapeHtml(message)}</p>
+        <p>You can close this window.</p>
+      </body>
+    </html>
+  `;
+}
+
+function openBrowser(url: string): void {
+  const command = process.platform === 'darwin' ? 'open' :
+                 process.platform === 'win32' ? 'start ""' : 'xdg-open';
+  childProcess.exec(`${command} "${url}"`);
+}
+
+// Wait for the browser to come back to the redirect URI
+function waitForCallback(redirectUri: URL, state: string, onListening: () => void): { code: Promise<string>; close(): void } {
+  const app = express();
+  let server: http.Server | undefined;
+  // Kept so close() can drop browser keep-alive connections; Node 16 has
+  // no server.closeAllConnections()
+  const sockets = new Set<net.Socket>();
+
+  const code = new Promise<string>((resolve, reject) => {
+    app.get(redirectUri.pathname, (req, res) => {
+      try {
+        const received = parseCallback(req.originalUrl, state);
+        res.send(page('✅ Authentication Successful!', 'Return to your terminal to finish.'));
+        resolve(received);
+      } catch (error: any) {
+        res.status(400).send(page('❌ Authentication Failed', error.message));
+        reject(error);
       }
+    });
+
+    const port = Number(redirectUri.port) || 80;
+    // Only loopback redirects are served locally; anything else is reached
+    // through a tunnel or proxy, so listen everywhere
+    const host = ['127.0.0.1', 'localhost', '[::1]'].includes(redirectUri.hostname)
+      ? redirectUri.hostname.replace(/^\[|\]$/g, '')
+      : undefined;
+    server = http.createServer(app);
+    server.on('connection', socket => {
+      sockets.add(socket);
+      socket.once('close', () => sockets.delete(socket));
+    });
+    server.listen({ port, host }, onListening);
+    server.once('error', (error: any) => {
+      reject(new AuthError(error.code === 'EADDRINUSE'
+        ? `Port ${port} is in use. Set auth.port (and your app's redirect URI) to a free one, or use --headless`
+        : error.message));
+    });
+  });
+
+  return {
+    code,
+    close: () => {
+      server?.close();
+      for (const socket of sockets) socket.destroy();
+    },
+  };
+}
 
+// Read back the redirect URL the user pastes
+function promptForCallback(state: string): { code: Promise<string>; close(): void } {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const code = new Promise<string>((resolve, reject) => {
+    const ask = () => rl.question('Paste the URL your browser was redirected to (it may show an error page):\n> ', (answer) => {
+      if (!answer.trim()) return ask();
       try {
-        await exchangeCodeForToken(code);
-        res.send(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>✅ Authentication Successful!</h1>
-              <p>You can now close this window and return to your terminal.</p>
-            </body>
-          </html>
-        `);
-        server.close();
-        resolve();
-      } catch (err) {
-        res.send(`
-          <html>
-            <body style="font-family: system-ui; padding: 40px; text-align: center;">
-              <h1>❌ Authentication Failed</h1>
-              <p>Error exchanging code for token.</p>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
-        server.close();
-        reject(err);
+        resolve(parseCallback(answer, state));
+      } catch (error) {
+        reject(error);
       }
     });
+    rl.once('close', () => reject(new AuthError('Cancelled')));
+    ask();
+  });
+  return { code, close: () => rl.close() };
+}
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      server.close();
-      reject(new Error('Authentication timed out after 5 minutes'));
-    }, 5 * 60 * 1000);
+/**
+ * Authorization Code with PKCE: the user approves in a browser, Spotify
+ * redirects back with a code, and the code plus our verifier buys the
+ * tokens. Resolves once they're saved to `store`.
+ */
+export async function startAuthFlow(options: AuthOptions, store: CredentialStore): Promise<void> {
+  const redirectUri = new URL(options.redirectUri);
+  const state = base64Url(crypto.randomBytes(16));
+  const pkce = createPkcePair();
+  const authUrl = getAuthUrl({
+    clientId: options.clientId,
+    redirectUri: options.redirectUri,
+    state,
+    codeChallenge: pkce.challenge,
   });
+
+  let callback: { code: Promise<string>; close(): void };
+  if (options.headless) {
+    console.log('\n🎵 Open this URL in a browser on any machine and approve tune-in:\n');
+    console.log(`  ${authUrl}\n`);
+    callback = promptForCallback(state);
+  } else {
+    callback = waitForCallback(redirectUri, state, () => {
+      console.log('\n🎵 Opening Spotify authentication in your browser...\n');
+      console.log('If the browser doesn\'t open automatically, visit:');
+      console.log(`\n  ${authUrl}\n`);
+      openBrowser(authUrl);
+    });
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutMs = options.timeoutMs ?? AUTH_TIMEOUT_MS;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new AuthError(`Authentication timed out after ${Math.round(timeoutMs / 60000)} minutes`));
+    }, timeoutMs);
+  });
+
+  try {
+    const code = await Promise.race([callback.code, timeout]);
+    await exchangeCodeForToken(store, code, {
+      clientId: options.clientId,
+      redirectUri: options.redirectUri,
+      codeVerifier: pkce.verifier,
+      tokenUrl: options.tokenUrl,
+    });
+  } finally {
+    clearTimeout(timer);
+    callback.close();
+  }
 }
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './config';
+
+export const CLAUDE_SETTINGS_FILE = path.join(os.homedir(), '.claude', 'settings.json');
+// Copy of Claude's settings from before our last edit, in case anything goes
+// badly wrong. We never restore it automatically: it would undo whatever
+// changed during the session.
+export const BACKUP_FILE = path.join(CONFIG_DIR, 'claude-settings.backup.json');
+// Wrappers that currently have hooks injected. An entry left behind means the
+// wrapper died before it could clean up; --repair (or the next wrapper) does it.
+const JOURNAL_FILE = path.join(CONFIG_DIR, 'claude-hooks.json');
+
+interface JournalEntry {
+  pid: number;
+  file: string;
+  startedAt: number;
+  // The file's text before this wrapper touched it; null if it didn't exist
+  original?: string | null;
+}
+
+export class ClaudeSettingsError extends Error {
+  constructor(readonly file: string, reason: string) {
+    super(`Cannot edit ${file}: ${reason}`);
+    this.name = 'ClaudeSettingsError';
+  }
+}
+
+// A missing file is fine (Claude creates it lazily), a broken one is not:
+// writing back {} would wipe the user's settings.
+function readClaudeSettings(file: string): any {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw new ClaudeSettingsError(file, error.message);
+  }
+  if (text.trim() === '') return {};
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    throw new ClaudeSettingsError(file, `invalid JSON (${error.message})`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ClaudeSettingsError(file, 'expected a JSON object');
+  }
+  return data;
+}
+
+// Write to a temp file and rename over the original so a crash mid-write can
+// never leave Claude with a truncated settings file
+function writeClaudeSettings(file: string, data: any): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temp = `${file}.tune-in-${process.pid}.tmp`;
+  let mode: number | undefined;
+  try { mode = fs.statSync(file).mode & 0o777; } catch {}
+  fs.writeFileSync(temp, JSON.stringify(data, null, 2) + '\n', { mode });
+  fs.renameSync(temp, file);
+}
+
+function readJournal(): JournalEntry[] {
+  try {
+    const entries = JSON.parse(fs.readFileSync(JOURNAL_FILE, 'utf-8'));
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeJournal(entries: JournalEntry[]): void {
+  if (entries.length === 0) {
+    try { fs.unlinkSync(JOURNAL_FILE); } catch {}
+    return;
+  }
+  ensureConfigDir();
+  fs.writeFileSync(JOURNAL_FILE, JSON.stringify(entries, null, 2));
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: it exists, it just isn't ours
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Add one tune-in hook entry per event, tagged with the owning wrapper's pid
+ * so it can be told apart from the user's hooks and from other sessions'.
+ * The journal entry is written first: if we die right after the settings
+ * file is written, the hooks can still be found and removed.
+ */
+export function addTuneInHooks(
+  events: string[],
+  command: string,
+  owner = process.pid,
+  file = CLAUDE_SETTINGS_FILE
+): void {
+  const settings = readClaudeSettings(file);
+  let original: string | null = null;
+  try { original = fs.readFileSync(file, 'utf-8'); } catch {}
+
+  const journal = readJournal();
+  const previous = journal.find(entry => entry.pid === owner && entry.file === file);
+  writeJournal([
+    ...journal.filter(entry => entry !== previous),
+    { pid: owner, file, startedAt: Date.now(), original: previous ? previous.original : original },
+  ]);
+  if (fs.existsSync(file)) {
+    ensureConfigDir();
+    fs.copyFileSync(file, BACKUP_FILE);
+  }
+
+  settings.hooks = settings.hooks ?? {};
+  for (const event of events) {
+    settings.hooks[event] = settings.hooks[event] ?? [];
+    settings.hooks[event].push({
+      _tuneIn: true,
+      _tuneInPid: owner,
+      hooks: [{ type: 'command', command }],
+    });
+  }
+  writeClaudeSettings(file, settings);
+}
+
+/**
+ * Remove tune-in hook entries from the settings file, leaving everything else
+ * exactly as it is now. `shouldRemove` gets each entry's owner pid (undefined
+ * for entries written by tune-in versions that didn't record one).
+ * Returns how many entries were removed.
+ *
+ * When nothing else changed since `original` (the file's text before our
+ * edit, null if there was no file), that is put back as it was, formatting
+ * and all, rather than written out again.
+ */
+export function removeTuneInHooks(
+  shouldRemove: (owner: number | undefined) => boolean,
+  file = CLAUDE_SETTINGS_FILE,
+  original?: string | null
+): number {
+  const settings = readClaudeSettings(file);
+  if (!settings.hooks || typeof settings.hooks !== 'object') return 0;
+
+  let removed = 0;
+  for (const [event, entries] of Object.entries<any>(settings.hooks)) {
+    if (!Array.isArray(entries)) continue;
+    const kept = entries.filter(entry => {
+      const ours = entry?._tuneIn === true && shouldRemove(entry._tuneInPid);
+      if (ours) removed++;
+      return !ours;
+    });
+    if (kept.length === entries.length) continue;
+    if (kept.length > 0) {
+      settings.hooks[event] = kept;
+    } else {
+      delete settings.hooks[event];
+    }
+  }
+  if (removed === 0) return 0;
+
+  if (Object.keys(settings.hooks).length === 0) delete settings.hooks;
+  if (original !== undefined && sameSettings(settings, original)) {
+    restoreClaudeSettings(file, original);
+  } else {
+    writeClaudeSettings(file, settings);
+  }
+  return removed;
+}
+
+function sameSettings(settings: any, original: string | null): boolean {
+  if (original === null || original.trim() === '') return Object.keys(settings).length === 0;
+  try {
+    return JSON.stringify(JSON.parse(original)) === JSON.stringify(settings);
+  } catch {
+    return false;
+  }
+}
+
+function restoreClaudeSettings(file: string, original: string | null): void {
+  if (original === null) {
+    try { fs.unlinkSync(file); } catch {}
+    return;
+  }
+  const temp = `${file}.tune-in-${process.pid}.tmp`;
+  let mode: number | undefined;
+  try { mode = fs.statSync(file).mode & 0o777; } catch {}
+  fs.writeFileSync(temp, original, { mode });
+  fs.renameSync(temp, file);
+}
+
+/**
+ * Undo addTuneInHooks() for one wrapper. Synchronous on purpose, so it can
+ * run from signal and crash handlers.
+ */
+export function releaseTuneInHooks(owner = process.pid, file = CLAUDE_SETTINGS_FILE): void {
+  const journal = readJournal();
+  const entry = journal.find(entry => entry.pid === owner && entry.file === file);
+  removeTuneInHooks(pid => pid === owner, file, entry?.original);
+  writeJournal(journal.filter(other => other !== entry));
+}
+
+export interface RepairResult {
+  file: string;
+  removed: number;
+}
+
+/**
+ * Remove hooks left behind by wrappers that are no longer running, from the
+ * default settings file and any other file the journal mentions. Hooks of
+ * live sessions are left alone.
+ */
+export function repairTuneInHooks(): RepairResult[] {
+  const journal = readJournal();
+  const files = new Set([CLAUDE_SETTINGS_FILE, ...journal.map(entry => entry.file)]);
+  const results: RepairResult[] = [];
+
+  for (const file of files) {
+    const removed = removeTuneInHooks(owner => owner === undefined || owner === process.pid || !isProcessAlive(owner), file);
+    results.push({ file, removed });
+  }
+
+  writeJournal(journal.filter(entry => entry.pid !== process.pid && isProcessAlive(entry.pid)));
+  return results;
+}
@@ -1,101 +1,97 @@
 #!/usr/bin/env node
 
 import * as pty from 'node-pty';
-import { isSpotifyRunning, openSpotify, playSpotifyNative, pauseSpotifyNative, getCurrentTrack } from './spotify-native';
+import { resolvePlayer } from './player';
+import { createController } from './transitions';
+import { ActivityState } from './playlists';
+import { HookEventName, HookRouter } from './rules';
+import { ProtocolServer } from './protocol';
+import { loadSettings } from './settings';
+import { SessionArbiter, SessionRegistry, sharedHeldVolume, sharedOverrideState } from './sessions';
+import { EventLog } from './events';
+import { TrackRecorder } from './soundtrack';
+import { StatusWriter } from './statusline';
+import { ESCAPE_TIMEOUT_MS, KeystrokeParser, TypingTracker } from './keystrokes';
+import type { KeyEvent } from './keystrokes';
+import { OutputActivityDetector, outputActivityOptionsFromSettings } from './output-activity';
+import type { OutputActivity } from './output-activity';
+import { OverrideWatcher, overrideOptionsFromSettings } from './override';
+import { addTuneInHooks, releaseTuneInHooks, repairTuneInHooks, BACKUP_FILE } from './claude-settings';
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-const SETTINGS_FILE = path.join(os.homedir(), '.claude', 'settings.json');
-// Temp file storing the PID of the claude process we manage.
-// Hook commands check $PPID against this so they only fire for OUR instance,
-// not for any other `claude` session the user has open simultaneously.
-const PID_FILE = path.join(os.tmpdir(), 'tune-in-claude.pid');
-
-// How many printable chars before music plays while typing
-const TYPING_PLAY_THRESHOLD = 3;
-// How long to pause before music stops when you stop typing
-const TYPING_IDLE_MS = 6000;
-
-// Each hook command prefixes a PPID guard so it only fires from the claude
-// process we spawned, not from any other concurrent Claude Code sessions.
-function spotifyPlayCmd(pidFile: string): string {
-  const guard = `[ "$(cat '${pidFile}' 2>/dev/null)" = "$PPID" ] && `;
-  if (process.platform === 'darwin')
-    return `${guard}osascript -e 'tell application "Spotify" to play'`;
-  if (process.platform === 'win32')
-    return `${guard}powershell -command "(New-Object -ComObject WMPlayer.OCX.7).controls.play()"`;
-  return `${guard}dbus-send --print-reply --dest=org.mpris.MediaPlayer2.spotify /org/mpris/MediaPlayer2 org.mpris.MediaPlayer2.Player.Play`;
+// Hooks don't drive the player themselves: they forward the hook event to this
+// wrapper over a socket (via hook-cli.ts, a lighter `tune-in signal hook`), so
+// the backend picked by resolvePlayer() and the "rules" setting applies to
+// every hook.
+const SOCKET_FILE = path.join(os.tmpdir(), `tune-in-claude-${process.pid}.sock`);
+const HOOK_BIN = path.join(__dirname, 'hook-cli.js');
+
+// Every running wrapper adds its own hooks, and Claude Code runs all of them.
+// Each hook command prefixes a PPID guard with the pid of the claude process
+// its wrapper spawned, so it only fires for that session.
+function hookCmd(claudePid: number): string {
+  const guard = `[ "$PPID" = "${claudePid}" ] && `;
+  return `${guard}"${process.execPath}" "${HOOK_BIN}" --socket "${SOCKET_FILE}" 2>/dev/null`;
 }
 
-function spotifyPauseCmd(pidFile: string): string {
-  const guard = `[ "$(cat '${pidFile}' 2>/dev/null)" = "$PPID" ] && `;
-  if (process.platform === 'darwin')
-    return `${guard}osascript -e 'tell application "Spotify" to pause'`;
-  if (process.platform === 'win32')
-    return `${guard}powershell -command "(New-Object -ComObject WMPlayer.OCX.7).controls.pause()"`;
-  return `${guard}dbus-send --print-reply --dest=org.mpris.MediaPlayer2.spotify /org/mpris/MediaPlayer2 org.mpris.MediaPlayer2.Player.Pause`;
-}
-
-function readSettings(): any {
-  try { return JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf-8')); }
-  catch { return {}; }
-}
-
-function writeSettings(obj: any) {
-  fs.mkdirSync(path.dirname(SETTINGS_FILE), { recursive: true });
-  fs.writeFileSync(SETTINGS_FILE, JSON.stringify(obj, null, 2));
-}
-
-function injectHooks(noPause: boolean, pidFile: string): any {
-  const original = readSettings();
-  const updated = JSON.parse(JSON.stringify(original));
-  updated.hooks = updated.hooks ?? {};
-
+// Only our own entries are added to ~/.claude/settings.json and removed again
+// on exit, so edits made to it during the session survive
+function injectHooks(noPause: boolean, claudePid: number): void {
   // PreToolUse: Claude starts working → play
-  updated.hooks.PreToolUse = updated.hooks.PreToolUse ?? [];
-  updated.hooks.PreToolUse.push({
-    _tuneIn: true,
-    hooks: [{ type: 'command', command: spotifyPlayCmd(pidFile) }],
-  });
-
+  // PostToolUse: tool finished → undo per-tool effects (ducking, long-tool playlist)
   // Stop: Claude finishes turn → pause
   // Notification: Claude needs mid-turn input (permission dialogs, selectors) → pause
-  if (!noPause) {
-    updated.hooks.Stop = updated.hooks.Stop ?? [];
-    updated.hooks.Stop.push({
-      _tuneIn: true,
-      hooks: [{ type: 'command', command: spotifyPauseCmd(pidFile) }],
-    });
-
-    updated.hooks.Notification = updated.hooks.Notification ?? [];
-    updated.hooks.Notification.push({
-      _tuneIn: true,
-      hooks: [{ type: 'command', command: spotifyPauseCmd(pidFile) }],
-    });
-  }
+  // What each one actually does is decided by the rules, see rules.ts.
+  const events: HookEventName[] = noPause
+    ? ['PreToolUse', 'PostToolUse']
+    : ['PreToolUse', 'PostToolUse', 'Stop', 'Notification'];
 
-  writeSettings(updated);
-  return original;
+  addTuneInHooks(events, hookCmd(claudePid));
 }
 
-function restoreHooks(original: any) {
-  writeSettings(original);
+function repair() {
+  let removed = 0;
+  for (const result of repairTuneInHooks()) {
+    if (result.removed > 0) {
+      console.log(chalk.green(`✅ Removed ${result.removed} leftover tune-in hook(s) from ${result.file}`));
+    }
+    removed += result.removed;
+  }
+  if (removed === 0) {
+    console.log(chalk.green('✅ No leftover tune-in hooks found'));
+  }
+  console.log(chalk.dim(`   Settings as they were before the last session: ${BACKUP_FILE}`));
 }
 
 async function main() {
   const args = process.argv.slice(2);
+  if (args[0] === '--repair') {
+    repair();
+    return;
+  }
   const noPauseMode = args.includes('--no-pause');
   const claudeArgs = args.filter(a => a !== '--no-pause');
 
-  let spotifyAvailable = await isSpotifyRunning();
-  if (!spotifyAvailable) {
+  const settings = loadSettings();
+
+  // Finish the cleanup of sessions that were killed before they could do it
+  try {
+    const removed = repairTuneInHooks().reduce((sum, result) => sum + result.removed, 0);
+    if (removed > 0) console.log(chalk.dim(`Removed ${removed} tune-in hook(s) left behind by an earlier session\n`));
+  } catch {
+    // Reported again below when we try to add ours
+  }
+
+  let player = await resolvePlayer(settings);
+  if (!player) {
     console.log(chalk.yellow('⚠️  Spotify not running — attempting to open...\n'));
-    await openSpotify();
-    spotifyAvailable = await isSpotifyRunning();
-    if (!spotifyAvailable)
-      console.log(chalk.yellow('⚠️  Could not open Spotify — music control disabled\n'));
+    player = await resolvePlayer(settings, { launch: true });
+    if (!player)
+      console.log(chalk.yellow('⚠️  Could not open Spotify — music control disabled') +
+        chalk.dim('\n   Set mpv.music (tune-in config set mpv.music <path>) to a folder or playlist to play local files with mpv instead\n'));
   }
 
   if (noPauseMode) {
@@ -107,26 +103,50 @@ async function main() {
     console.log(chalk.dim('   Music pauses when Claude needs your input\n'));
   }
 
+  // Every transition goes through the controller so pause/duck/fade settings
+  // apply, and through the arbiter so other running sessions get a say
+  const sessions = new SessionRegistry();
+  sessions.register();
+  const controller = player ? createController(player, settings, sharedHeldVolume()) : null;
+  const arbiter = controller ? new SessionArbiter(controller, sessions) : null;
+  // For tune-in statusline
+  const status = new StatusWriter('claude', player?.label ?? null);
+  status.update({});
+  // Backs off when you play or pause the music yourself
+  const watcher = controller
+    ? new OverrideWatcher(controller, overrideOptionsFromSettings(settings), sharedOverrideState(), (override, actual) => {
+      status.update(actual === 'unknown' ? { override } : { override, playing: actual === 'playing' });
+    })
+    : null;
+  // A new session ends an override that was meant to last until the session ended
+  if (watcher && sessions.others().length === 0) watcher.reset();
+  const guarded = (transition: () => Promise<boolean>) => watcher ? watcher.run(transition) : transition();
+
   // Start music immediately
-  if (spotifyAvailable) {
-    try {
-      await playSpotifyNative();
-      const track = await getCurrentTrack();
+  if (player && arbiter) {
+    if (!(await guarded(() => arbiter.play()))) {
+      console.log(chalk.yellow('⚠️  Could not start music playback\n'));
+    } else if (player.capabilities.nowPlaying) {
+      const track = await player.getNowPlaying();
+      status.update({ playing: true });
+      status.track(track);
       if (track) {
         console.log(chalk.green(`🎵 Now playing: ${chalk.bold(track.name)}`) + chalk.dim(` by ${track.artist}`) + '\n');
       } else {
         console.log(chalk.yellow('⚠️  Spotify is open but no track is loaded — open a playlist in Spotify first\n'));
       }
-    } catch {
-      console.log(chalk.yellow('⚠️  Could not start music playback\n'));
+    } else {
+      status.update({ playing: true });
+      console.log(chalk.green(`🎵 Music playing via ${player.label}\n`));
     }
+    watcher?.start();
   }
 
   // Spawn Claude inside a real PTY — it gets a full TTY, we see every keystroke.
   // Spawn BEFORE injecting hooks so we have the PID to embed in hook commands.
   let claude: ReturnType<typeof pty.spawn>;
   try {
-    claude = pty.spawn('claude', claudeArgs, {
+    claude = pty.spawn(settings.claude.command, claudeArgs, {
       name: process.env.TERM || 'xterm-256color',
       cols: process.stdout.columns || 80,
       rows: process.stdout.rows || 24,
@@ -135,7 +155,7 @@ async function main() {
     });
   } catch (err: any) {
     if (err.code === 'ENOENT') {
-      console.error(chalk.red('Error: claude command not found.'));
+      console.error(chalk.red(`Error: ${settings.claude.command} command not found.`));
       console.error(chalk.dim('Install Claude Code: https://claude.ai/code'));
     } else {
       console.error(chalk.red(`Error: failed to start claude — ${err.message}`));
@@ -143,20 +163,94 @@ async function main() {
     process.exit(1);
   }
 
-  // Write the managed claude's PID so hook commands can filter by $PPID
-  fs.writeFileSync(PID_FILE, String(claude.pid));
+  sessions.register(claude.pid);
+
+  // For tune-in stats
+  const events = new EventLog(settings.stats.enabled);
+  events.record({ kind: 'session-start', source: 'claude', cwd: process.cwd() });
+  const recorder = player ? new TrackRecorder(player, events, settings.soundtrack.pollMs, track => status.track(track)) : null;
+  recorder?.start();
+
+  const play = async (state: ActivityState) => {
+    if (arbiter && await guarded(() => arbiter.play(state)).catch(() => false)) status.update({ playing: true });
+  };
+  const pause = async () => {
+    // Music stays on while another session wants it
+    if (arbiter && await guarded(() => arbiter.pause()).catch(() => false)) {
+      status.update({ playing: sessions.others().some(session => session.active) });
+    }
+  };
 
-  const originalSettings = injectHooks(noPauseMode, PID_FILE);
+  const router = new HookRouter(settings.rules, {
+    play,
+    pause,
+    duck: async () => { if (arbiter) await guarded(() => arbiter.duck()).catch(() => false); },
+  }, controller?.playlists['long-tool'] ? settings.playlists.longToolMs : null);
+
+  // Hook events from the claude session. Answered as soon as they arrive:
+  // claude waits for the hook command before running the tool, and a fade
+  // or a Web API retry shouldn't hold it up. A newer transition cancels one
+  // still running, so events handled side by side are fine.
+  let hookFired = false;
+  const hookServer = new ProtocolServer('tune-in-claude', {
+    hook: async hook => {
+      hookFired = true;
+      events.hook(hook);
+      status.hook(hook);
+      router.handle(hook).catch(() => {});
+    },
+  });
+  hookServer.listen(SOCKET_FILE);
+
+  let hooksInjected = false;
+  const releaseHooks = () => {
+    if (!hooksInjected) return;
+    hooksInjected = false;
+    try {
+      releaseTuneInHooks();
+    } catch (err: any) {
+      console.error(chalk.yellow(`⚠️  ${err.message}\n   Run tune-in-claude --repair to remove the tune-in hooks`));
+    }
+  };
+
+  try {
+    injectHooks(noPauseMode, claude.pid);
+    hooksInjected = true;
+  } catch (err: any) {
+    console.log(chalk.yellow(`⚠️  ${err.message}`) + chalk.dim('\n   Hooks not installed — music follows your typing only\n'));
+  }
 
   // ── State ────────────────────────────────────────────────────────────────
-  let firstMessageSent = false;
-  let charCount = 0;
+  const keystrokes = new KeystrokeParser();
+  const typing = new TypingTracker(settings.typing.playThreshold);
   let typingTimer: NodeJS.Timeout | null = null;
+  let escapeTimer: NodeJS.Timeout | null = null;
   // ─────────────────────────────────────────────────────────────────────────
 
+  // Fallback for when our hooks never fire: follow claude's spinner and
+  // prompts in its output instead. In auto mode the first hook ends it.
+  const detector = settings.output.detect !== 'off'
+    ? new OutputActivityDetector(outputActivityOptionsFromSettings(settings))
+    : null;
+  const detecting = () => detector !== null && (settings.output.detect === 'on' || !hookFired);
+  const onOutputActivity = (activity: OutputActivity | null) => {
+    if (!activity || !detecting()) return;
+    if (activity === 'working') {
+      events.record({ kind: 'working' });
+      status.update({ claude: 'working' });
+      play('working');
+    } else {
+      events.record({ kind: 'your-turn' });
+      status.update({ claude: 'waiting' });
+      if (!noPauseMode) pause();
+    }
+  };
+  const detectorTimer = detector ? setInterval(() => onOutputActivity(detector.tick(Date.now())), 500) : null;
+
   // Forward PTY output straight to terminal
   claude.onData((data: string) => {
     process.stdout.write(data);
+    if (detector) onOutputActivity(detector.feed(data, Date.now()));
   });
 
   // Resize PTY when terminal window changes
@@ -165,77 +259,123 @@ async function main() {
   });
 
   const onTypingPlay = () => {
-    if (noPauseMode || !spotifyAvailable) return;
-    playSpotifyNative().catch(() => {});
+    if (noPauseMode) return;
+    play('typing');
   };
 
   const scheduleTypingPause = () => {
     if (typingTimer) clearTimeout(typingTimer);
-    if (noPauseMode || !spotifyAvailable) return;
+    if (noPauseMode) return;
     typingTimer = setTimeout(() => {
       typingTimer = null;
-      charCount = 0;
-      pauseSpotifyNative().catch(() => {});
-    }, TYPING_IDLE_MS);
+      typing.reset();
+      pause();
+    }, settings.typing.idleMs);
   };
 
   // Forward our stdin to the PTY
   if (process.stdin.isTTY) process.stdin.setRawMode(true);
   process.stdin.resume();
 
-  process.stdin.on('data', (data: Buffer) => {
-    claude.write(data.toString());
-
-    const bytes = Array.from(data);
-
-    // Enter key — user submitted a message or confirmed a selector.
-    // Play immediately so music starts while Claude is thinking,
-    // without waiting for the PreToolUse hook to fire.
-    if (bytes.includes(0x0d) || bytes.includes(0x0a)) {
-      firstMessageSent = true;
-      charCount = 0;
-      if (typingTimer) { clearTimeout(typingTimer); typingTimer = null; }
-      if (spotifyAvailable && !noPauseMode) playSpotifyNative().catch(() => {});
-      return;
-    }
-
-    // Only track typing after the first message (skip onboarding prompt)
-    if (!firstMessageSent) return;
-
-    // Only count printable characters; ignore arrows, backspace, etc.
-    const printable = bytes.filter(b => b >= 0x20 && b < 0x7f);
-    if (printable.length === 0) return;
-
-    charCount += printable.length;
-
-    // Once threshold is reached, play music
-    if (charCount === TYPING_PLAY_THRESHOLD) {
-      onTypingPlay();
+  // What the keys mean is worked out in keystrokes.ts; see TypingTracker
+  const onKeys = (keys: KeyEvent[]) => {
+    for (const event of keys) {
+      switch (typing.handle(event)) {
+        case 'submit':
+          // User sent a message or confirmed a selector. Play immediately so
+          // music starts while Claude is thinking, without waiting for the
+          // PreToolUse hook to fire.
+          events.record({ kind: 'working' });
+          status.update({ claude: 'working' });
+          if (typingTimer) { clearTimeout(typingTimer); typingTimer = null; }
+          if (!noPauseMode) play('working');
+          break;
+        case 'start-typing':
+          onTypingPlay();
+          scheduleTypingPause();
+          break;
+        case 'keep-typing':
+          // Keep resetting the idle timer as long as user keeps typing
+          scheduleTypingPause();
+          break;
+      }
     }
+  };
 
-    // Keep resetting the idle timer as long as user keeps typing
-    if (charCount >= TYPING_PLAY_THRESHOLD) {
-      scheduleTypingPause();
+  process.stdin.on('data', (data: Buffer) => {
+    // Raw bytes: a character split across reads must reach claude intact
+    claude.write(data);
+
+    if (escapeTimer) { clearTimeout(escapeTimer); escapeTimer = null; }
+    onKeys(keystrokes.feed(data));
+    // A lone ESC: the Escape key, unless the rest of a sequence follows
+    if (keystrokes.holding) {
+      escapeTimer = setTimeout(() => {
+        escapeTimer = null;
+        onKeys(keystrokes.flush());
+      }, ESCAPE_TIMEOUT_MS);
     }
   });
 
-  const cleanup = async () => {
+  // claude exiting and a signal to us usually come together; whichever is
+  // first does the cleanup, and the other waits for it
+  let cleaningUp: Promise<void> | null = null;
+  // Set when we were told to stop: that decides our exit status, not claude's
+  let signalExitCode: number | null = null;
+  const cleanup = (exitCode?: number) => cleaningUp ??= (async () => {
+    // Hooks first: it's the one thing that outlives us if the rest fails
+    releaseHooks();
+    recorder?.stop();
+    status.clear();
+    events.record({ kind: 'session-end', exitCode });
     if (typingTimer) clearTimeout(typingTimer);
-    try { fs.unlinkSync(PID_FILE); } catch {}
+    if (escapeTimer) clearTimeout(escapeTimer);
+    if (detectorTimer) clearInterval(detectorTimer);
+    router.cancel();
     if (process.stdin.isTTY) process.stdin.setRawMode(false);
-    restoreHooks(originalSettings);
-    if (spotifyAvailable) await pauseSpotifyNative().catch(() => {});
-  };
+    hookServer.close();
+    try { fs.unlinkSync(SOCKET_FILE); } catch {}
+    watcher?.stop();
+    if (arbiter && controller) {
+      // Music you took over stays the way you left it
+      if (watcher?.active) {
+        sessions.unregister();
+      } else {
+        await arbiter.stop().catch(() => false);
+      }
+      await controller.player.dispose?.();
+    }
+  })();
 
   claude.onExit(async ({ exitCode }) => {
-    await cleanup();
-    process.exit(exitCode ?? 0);
+    await cleanup(exitCode);
+    if (signalExitCode === null) process.exit(exitCode ?? 0);
   });
 
-  process.on('SIGINT', async () => {
-    claude.kill('SIGINT');
-    await cleanup();
-    process.exit(130);
+  const signalExitCodes: Record<string, number> = { SIGINT: 130, SIGHUP: 129, SIGTERM: 143 };
+  for (const [signal, code] of Object.entries(signalExitCodes)) {
+    process.on(signal, async () => {
+      signalExitCode ??= code;
+      try { claude.kill(signal); } catch {}
+      await cleanup(signalExitCode);
+      process.exit(signalExitCode);
+    });
+  }
+
+  // Anything unexpected: get the hooks out before dying, the rest is best effort
+  const onCrash = (err: any) => {
+    releaseHooks();
+    try { claude.kill(); } catch {}
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    console.error(chalk.red(`\nError: ${err?.message ?? err}`));
+    process.exit(1);
+  };
+  process.on('uncaughtException', onCrash);
+  process.on('unhandledRejection', onCrash);
+  process.on('exit', () => {
+    releaseHooks();
+    sessions.unregister();
+    status.clear();
   });
 }
 
@@ -0,0 +1,221 @@
+import { execFile, execSync } from 'child_process';
+import * as os from 'os';
+import type { MusicPlayer } from './player';
+import type { PlaybackController } from './transitions';
+
+export const COMPLETION_ACTIONS = ['pause', 'continue', 'sound', 'track'] as const;
+export type CompletionAction = typeof COMPLETION_ACTIONS[number];
+
+export const COMPLETION_NOTIFY = ['off', 'bell', 'osc'] as const;
+export type CompletionNotify = typeof COMPLETION_NOTIFY[number];
+
+// How a command can end, as written in "on"
+const OUTCOME_KEYWORDS = ['success', 'failure', 'signal'] as const;
+
+/**
+ * One entry of the "completion.rules" setting: what `tune-in <command>`
+ * does with the music when the command ends. The first rule whose "on"
+ * matches wins; when none does, the music pauses.
+ */
+export interface CompletionRule {
+  // "success", "failure" (non-zero or killed), "signal", an exit code or a
+  // signal name like "SIGTERM". Omit to match any ending.
+  on?: string | number | Array<string | number>;
+  action: CompletionAction;
+  // For "sound": an audio file to play once the music is paused
+  file?: string;
+  // For "track": a Spotify URI, URL or file to play instead
+  uri?: string;
+}
+
+/**
+ * How the command ended: an exit code, or the signal that killed it
+ */
+export interface CommandOutcome {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+const COMPLETION_RULE_KEYS = ['on', 'action', 'file', 'uri'];
+
+export function validateCompletionRules(value: unknown): CompletionRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error('completion.rules: expected an array of rules');
+  }
+
+  return value.map((rule, i) => {
+    const where = `completion.rules[${i}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      throw new Error(`${where}: expected an object`);
+    }
+    const unknown = Object.keys(rule).find(key => !COMPLETION_RULE_KEYS.includes(key));
+    if (unknown !== undefined) {
+      throw new Error(`${where}.${unknown}: unknown key (expected ${COMPLETION_RULE_KEYS.join(', ')})`);
+    }
+    if (!COMPLETION_ACTIONS.includes(rule.action)) {
+      throw new Error(`${where}.action: expected one of ${COMPLETION_ACTIONS.join(', ')}`);
+    }
+    if (rule.on !== undefined) {
+      const outcomes = Array.isArray(rule.on) ? rule.on : [rule.on];
+      for (const outcome of outcomes) {
+        const valid = (Number.isInteger(outcome) && outcome >= 0 && outcome <= 255) ||
+          (OUTCOME_KEYWORDS as readonly unknown[]).includes(outcome) ||
+          (typeof outcome === 'string' && outcome in os.constants.signals);
+        if (!valid) {
+          throw new Error(`${where}.on: "${outcome}" is not an exit code, a signal name or one of ${OUTCOME_KEYWORDS.join(', ')}`);
+        }
+      }
+    }
+    if (rule.action === 'sound' && (typeof rule.file !== 'string' || !rule.file)) {
+      throw new Error(`${where}.file: "sound" needs the audio file to play`);
+    }
+    if (rule.action === 'track' && (typeof rule.uri !== 'string' || !rule.uri)) {
+      throw new Error(`${where}.uri: "track" needs the URI to play`);
+    }
+    return rule as CompletionRule;
+  });
+}
+
+function matchesOutcome(on: string | number, outcome: CommandOutcome): boolean {
+  switch (on) {
+    case 'success':
+      return outcome.code === 0;
+    case 'failure':
+      return outcome.code !== 0;
+    case 'signal':
+      return outcome.signal !== null;
+    default:
+      return typeof on === 'number' ? outcome.code === on : outcome.signal === on;
+  }
+}
+
+export function matchCompletionRule(rules: CompletionRule[], outcome: CommandOutcome): CompletionRule | null {
+  for (const rule of rules) {
+    if (rule.on === undefined) return rule;
+    const outcomes = Array.isArray(rule.on) ? rule.on : [rule.on];
+    if (outcomes.some(on => matchesOutcome(on, outcome))) return rule;
+  }
+  return null;
+}
+
+/**
+ * The exit status a shell would report: the code, or 128 + the signal number
+ */
+export function exitStatus(outcome: CommandOutcome): number {
+  if (outcome.code !== null) return outcome.code;
+  return outcome.signal ? 128 + (os.constants.signals[outcome.signal] ?? 0) : 1;
+}
+
+/**
+ * The name of a signal number, as node-pty reports it
+ */
+export function signalName(signal: number): NodeJS.Signals | null {
+  const entry = Object.entries(os.constants.signals).find(([, number]) => number === signal);
+  return entry ? entry[0] as NodeJS.Signals : null;
+}
+
+export function describeOutcome(outcome: CommandOutcome): string {
+  if (outcome.signal) return `killed by ${outcome.signal}`;
+  return outcome.code === 0 ? 'succeeded' : `failed with exit code ${outcome.code}`;
+}
+
+/**
+ * Ring the terminal bell, or raise a desktop notification through OSC 9
+ * (iTerm2, WezTerm, Windows Terminal, kitty and others). Goes to stderr so
+ * it isn't mixed into output that's piped somewhere.
+ */
+export function notifyTerminal(mode: CompletionNotify, message: string): void {
+  if (mode === 'off' || !process.stderr.isTTY) return;
+  // Control characters would end the sequence early
+  const text = message.replace(/[\x00-\x1f\x7f]/g, ' ');
+  process.stderr.write(mode === 'bell' ? '\x07' : `\x1b]9;${text}\x07`);
+}
+
+function expandHome(file: string): string {
+  return file.replace(/^~(?=\/|$)/, os.homedir());
+}
+
+function hasCommand(name: string): boolean {
+  try {
+    execSync(process.platform === 'win32' ? `where ${name}` : `command -v ${name}`, { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The first audio player around that can play a file and exit
+function soundCommand(file: string): [string, string[]] | null {
+  if (process.platform === 'darwin') return ['afplay', [file]];
+  if (process.platform === 'win32') {
+    const escaped = file.replace(/'/g, "''");
+    return ['powershell', ['-NoProfile', '-Command', `(New-Object Media.SoundPlayer '${escaped}').PlaySync()`]];
+  }
+  const candidates: Array<[string, string[]]> = [
+    ['paplay', [file]],
+    ['pw-play', [file]],
+    ['aplay', ['-q', file]],
+    ['ffplay', ['-nodisp', '-autoexit', '-loglevel', 'quiet', file]],
+    ['mpv', ['--no-video', '--no-terminal', file]],
+  ];
+  return candidates.find(([command]) => hasCommand(command)) ?? null;
+}
+
+/**
+ * Play a short audio file and resolve once it's done (or after 30 seconds)
+ */
+export function playSound(file: string): Promise<boolean> {
+  const command = soundCommand(expandHome(file));
+  if (!command) return Promise.resolve(false);
+  return new Promise(resolve => {
+    execFile(command[0], command[1], { timeout: 30000 }, error => resolve(!error));
+  });
+}
+
+export interface CompletionResult {
+  ok: boolean;
+  // Music is left playing, so it has to outlive tune-in
+  playing: boolean;
+  // What happened to the music, for the terminal
+  message: string;
+}
+
+/**
+ * Carry out what the rule says once the command has ended (pause when no
+ * rule matched)
+ */
+export async function runCompletionAction(
+  rule: CompletionRule | null,
+  player: MusicPlayer,
+  controller: PlaybackController
+): Promise<CompletionResult> {
+  const pause = async (): Promise<CompletionResult> => (await controller.stop())
+    ? { ok: true, playing: false, message: '⏸️  Music paused' }
+    : { ok: false, playing: false, message: `⚠️  Could not pause music via ${player.label}` };
+
+  switch (rule?.action ?? 'pause') {
+    case 'continue':
+      if (controller.intendedState === 'playing') {
+        return { ok: true, playing: true, message: '🎵 Music keeps playing' };
+      }
+      // Paused while the command sat waiting (tune-in --pty); it's done now
+      return (await controller.play())
+        ? { ok: true, playing: true, message: '🎵 Music playing again' }
+        : { ok: false, playing: false, message: `⚠️  Could not resume music via ${player.label}` };
+    case 'track':
+      if (player.playUri && await player.playUri(rule!.uri!)) {
+        return { ok: true, playing: true, message: `🎵 Playing ${rule!.uri}` };
+      }
+      await controller.stop();
+      return { ok: false, playing: false, message: `⚠️  ${player.label} couldn't play ${rule!.uri}; music paused instead` };
+    case 'sound': {
+      const paused = await pause();
+      if (!paused.ok) return paused;
+      return (await playSound(rule!.file!))
+        ? paused
+        : { ok: false, playing: false, message: `⚠️  Music paused, but no audio player could play ${rule!.file}` };
+    }
+    case 'pause':
+      return pause();
+  }
+}
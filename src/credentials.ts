@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { CONFIG_DIR } from './config';
+import type { Settings } from './settings';
+
+export const CREDENTIALS_FILE = path.join(CONFIG_DIR, 'config.json');
+
+export const CREDENTIAL_STORE_IDS = ['file', 'command', 'env'] as const;
+export type CredentialStoreId = typeof CREDENTIAL_STORE_IDS[number];
+
+export interface Credentials {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  // The app and token endpoint the tokens came from, for refreshing them
+  clientId?: string;
+  tokenUrl?: string;
+}
+
+export class CredentialStoreError extends Error {
+  constructor(public store: CredentialStoreId, message: string) {
+    super(`Credential store "${store}": ${message}`);
+    this.name = 'CredentialStoreError';
+  }
+}
+
+/**
+ * Where Spotify tokens are kept. Stores that can't be written to (a
+ * password manager without a save command, environment variables) keep
+ * refreshed tokens in memory for the life of the process.
+ */
+export interface CredentialStore {
+  readonly id: CredentialStoreId;
+  load(): Credentials;
+  save(credentials: Credentials): void;
+  // Wipe the stored credentials. False when this store can't.
+  clear(): boolean;
+}
+
+/**
+ * ~/.tune-in/config.json, readable only by you. Written atomically; a file
+ * that doesn't parse is moved aside and treated as logged out.
+ */
+export function fileCredentialStore(file = CREDENTIALS_FILE): CredentialStore {
+  return {
+    id: 'file',
+    load() {
+      let text: string;
+      try {
+        text = fs.readFileSync(file, 'utf-8');
+      } catch {
+        return {};
+      }
+      try {
+        const data = JSON.parse(text);
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new Error('not an object');
+        // Tighten files written by older versions
+        if ((fs.statSync(file).mode & 0o077) !== 0) fs.chmodSync(file, 0o600);
+        return data;
+      } catch {
+        const aside = `${file}.corrupt-${Date.now()}`;
+        try {
+          fs.renameSync(file, aside);
+          fs.chmodSync(aside, 0o600);
+        } catch {}
+        console.warn(`⚠️  ${file} was unreadable and has been moved to ${aside}. Run: tune-in auth`);
+        return {};
+      }
+    },
+    save(credentials) {
+      fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+      const temp = `${file}.${process.pid}.tmp`;
+      try {
+        const fd = fs.openSync(temp, 'w', 0o600);
+        try {
+          fs.writeSync(fd, JSON.stringify(credentials, null, 2));
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        fs.renameSync(temp, file);
+      } catch (error) {
+        try { fs.unlinkSync(temp); } catch {}
+        throw error;
+      }
+    },
+    clear() {
+      try {
+        fs.unlinkSync(file);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+      return true;
+    },
+  };
+}
+
+// Commands print either a JSON object of credentials or just a refresh token
+function parseCommandOutput(output: string): Credentials {
+  const text = output.trim();
+  if (text.startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new CredentialStoreError('command', 'output looks like JSON but doesn\'t parse');
+    }
+  }
+  return text ? { refreshToken: text } : {};
+}
+
+export interface CommandStoreOptions {
+  // Prints the credentials, e.g. `pass show tune-in` or `op read op://...`
+  command: string;
+  // Receives the credentials as JSON on stdin; null: refreshes stay in memory
+  saveCommand: string | null;
+  defaults: Credentials;
+  timeoutMs?: number;
+}
+
+/**
+ * Credentials from a password manager or any other command
+ */
+export function commandCredentialStore(options: CommandStoreOptions): CredentialStore {
+  let cached: Credentials | null = null;
+  const run = (command: string, input?: string) => execSync(command, {
+    input,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'inherit'],
+    timeout: options.timeoutMs ?? 30000,
+  });
+
+  return {
+    id: 'command',
+    load() {
+      if (!cached) {
+        try {
+          cached = { ...options.defaults, ...parseCommandOutput(run(options.command)) };
+        } catch (error: any) {
+          if (error instanceof CredentialStoreError) throw error;
+          throw new CredentialStoreError('command', `\`${options.command}\` failed (${error.message.split('\n')[0]})`);
+        }
+      }
+      return cached;
+    },
+    save(credentials) {
+      cached = credentials;
+      if (options.saveCommand) run(options.saveCommand, JSON.stringify(credentials));
+    },
+    clear() {
+      cached = {};
+      if (!options.saveCommand) return false;
+      run(options.saveCommand, '{}');
+      return true;
+    },
+  };
+}
+
+/**
+ * SPOTIFY_REFRESH_TOKEN (and optionally SPOTIFY_ACCESS_TOKEN), e.g. from a
+ * CI secret
+ */
+export function envCredentialStore(defaults: Credentials, env = process.env): CredentialStore {
+  let cached: Credentials | null = null;
+  return {
+    id: 'env',
+    load() {
+      cached ??= {
+        ...defaults,
+        refreshToken: env.SPOTIFY_REFRESH_TOKEN || undefined,
+        accessToken: env.SPOTIFY_ACCESS_TOKEN || undefined,
+      };
+      return cached;
+    },
+    save(credentials) {
+      cached = credentials;
+    },
+    clear() {
+      cached = {};
+      return false;
+    },
+  };
+}
+
+export function createCredentialStore(settings: Settings): CredentialStore {
+  const { store, command, saveCommand } = settings.credentials;
+  // Tokens from outside tune-in don't say which app they belong to
+  const defaults: Credentials = {
+    clientId: settings.auth.clientId ?? undefined,
+    tokenUrl: settings.auth.tokenUrl,
+  };
+
+  switch (store) {
+    case 'file':
+      return fileCredentialStore();
+    case 'command':
+      if (!command) throw new CredentialStoreError('command', 'set credentials.command to the command that prints them');
+      return commandCredentialStore({ command, saveCommand, defaults });
+    case 'env':
+      return envCredentialStore(defaults);
+  }
+}
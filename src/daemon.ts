@@ -1,34 +1,49 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { isSpotifyRunning, playSpotifyNative, pauseSpotifyNative, getSpotifyState } from './spotify-native';
-import { playSpotify, pauseSpotify } from './spotify';
-import { loadConfig } from './config';
+import { resolvePlayer } from './player';
+import { PlaybackController, createController } from './transitions';
+import { ActivityState } from './playlists';
+import { HookRouter } from './rules';
+import { loadSettings } from './settings';
+import { ensureConfigDir } from './config';
+import { HttpApi, loadApiToken } from './http-api';
+import { EventLog } from './events';
+import { TrackRecorder } from './soundtrack';
+import { StatusWriter } from './statusline';
+import { OverrideWatcher, overrideOptionsFromSettings } from './override';
+import { DaemonResults, DaemonStatus, ProtocolClient, ProtocolServer, RequestParams, RequestType } from './protocol';
 
 const DAEMON_DIR = path.join(os.homedir(), '.tune-in');
 const PID_FILE = path.join(DAEMON_DIR, 'daemon.pid');
 const STATE_FILE = path.join(DAEMON_DIR, 'daemon.state');
 const SOCKET_FILE = path.join(DAEMON_DIR, 'daemon.sock');
 
-interface DaemonState {
-  playing: boolean;
-  mode: 'native' | 'web-api';
-  lastUpdate: number;
-}
-
 export class TuneInDaemon {
-  private state: DaemonState;
+  private state: DaemonStatus;
   private checkInterval?: NodeJS.Timeout;
+  private controller?: PlaybackController;
+  private router?: HookRouter;
+  private server?: ProtocolServer;
+  private api?: HttpApi;
+  private watcher?: OverrideWatcher;
+  private events?: EventLog;
+  private recorder?: TrackRecorder;
+  private status?: StatusWriter;
 
   constructor() {
     this.state = {
       playing: false,
       mode: 'native',
-      lastUpdate: Date.now()
+      lastUpdate: Date.now(),
+      override: false,
     };
   }
 
-  async start(): Promise<void> {
+  /**
+   * http: serve the HTTP/WebSocket API even if api.enabled is off
+   */
+  async start(options: { http?: boolean } = {}): Promise<void> {
     // Check if daemon is already running
     if (fs.existsSync(PID_FILE)) {
       const pid = parseInt(fs.readFileSync(PID_FILE, 'utf-8'));
@@ -43,29 +58,49 @@ export class TuneInDaemon {
     }
 
     // Write PID file
+    ensureConfigDir();
     fs.writeFileSync(PID_FILE, process.pid.toString());
 
     // Determine mode
-    const spotifyRunning = await isSpotifyRunning();
-    const config = loadConfig();
-    const hasWebAPI = !!(config.accessToken && config.refreshToken);
-
-    if (spotifyRunning) {
-      this.state.mode = 'native';
-      console.log('🎵 Daemon started (Native Mode - Spotify Desktop)');
-    } else if (hasWebAPI) {
-      this.state.mode = 'web-api';
-      console.log('🎵 Daemon started (Web API Mode)');
-    } else {
+    const settings = loadSettings();
+    const player = await resolvePlayer(settings);
+    if (!player) {
       console.error('❌ Neither Spotify Desktop nor Web API available');
       process.exit(1);
     }
 
+    this.controller = createController(player, settings);
+    this.router = new HookRouter(settings.rules, {
+      play: state => this.handleStart(state),
+      pause: () => this.handleStop(),
+      duck: async () => { await this.watcher?.run(() => this.controller!.duck()); },
+    }, this.controller.playlists['long-tool'] ? settings.playlists.longToolMs : null);
+    this.watcher = new OverrideWatcher(this.controller, overrideOptionsFromSettings(settings), undefined, (override, actual) => {
+      const time = new Date().toLocaleTimeString();
+      console.log(override
+        ? `[${time}] ✋ Manual ${actual === 'playing' ? 'play' : 'pause'} — backing off`
+        : `[${time}] 🤝 Back-off over, following Claude again`);
+      this.update({ override, playing: actual === 'unknown' ? this.state.playing : actual === 'playing' });
+    });
+    this.watcher.start();
+    this.state.mode = player.id;
+    this.events = new EventLog(settings.stats.enabled);
+    this.events.record({ kind: 'session-start', source: 'daemon', cwd: process.cwd() });
+    this.status = new StatusWriter('daemon', player.label);
+    this.status.update({});
+    this.recorder = new TrackRecorder(player, this.events, settings.soundtrack.pollMs, track => this.status?.track(track));
+    this.recorder.start();
+    console.log(`🎵 Daemon started (${player.label})`);
+
     console.log('Listening for Claude Code events...\n');
 
     // Create Unix socket for IPC
     this.setupSocket();
 
+    if (options.http || settings.api.enabled) {
+      await this.setupHttpApi(settings.api.port);
+    }
+
     // Keep alive
     this.checkInterval = setInterval(() => {
       this.saveState();
@@ -77,71 +112,95 @@ export class TuneInDaemon {
   }
 
   private setupSocket(): void {
-    const net = require('net');
-
-    // Remove old socket
-    if (fs.existsSync(SOCKET_FILE)) {
-      fs.unlinkSync(SOCKET_FILE);
-    }
+    this.server = new ProtocolServer('daemon', {
+      hook: async hook => {
+        this.events?.hook(hook);
+        this.status?.hook(hook);
+        // Answered right away, as in tune-in-claude: the hook that sent it
+        // holds up claude until it gets a reply
+        this.router?.handle(hook).catch(() => {});
+      },
+      shuffle: async enabled => {
+        const player = this.controller?.player;
+        return player?.setShuffle ? player.setShuffle(enabled) : false;
+      },
+      status: () => ({ ...this.state }),
+    });
+    this.server.listen(SOCKET_FILE);
+  }
 
-    const server = net.createServer((socket: any) => {
-      socket.on('data', async (data: Buffer) => {
-        const command = data.toString().trim();
+  private async setupHttpApi(port: number): Promise<void> {
+    this.api = new HttpApi({
+      status: () => ({ ...this.state }),
+      // Asked for explicitly, so they end any override
+      play: () => this.handleStart('working', true),
+      pause: () => this.handleStop(true),
+      nowPlaying: async () => {
+        const player = this.controller?.player;
+        return player?.capabilities.nowPlaying ? player.getNowPlaying() : null;
+      },
+    }, loadApiToken());
 
-        if (command === 'start') {
-          await this.handleStart();
-          socket.write('OK\n');
-        } else if (command === 'stop') {
-          await this.handleStop();
-          socket.write('OK\n');
-        } else if (command === 'status') {
-          socket.write(JSON.stringify(this.state) + '\n');
-        }
+    try {
+      await this.api.listen(port);
+      console.log(`HTTP API on http://127.0.0.1:${port} (token: tune-in daemon token)\n`);
+    } catch (error: any) {
+      console.error(`Could not start the HTTP API on port ${port}: ${error.message}\n`);
+      this.api = undefined;
+    }
+  }
 
-        socket.end();
-      });
-    });
+  private update(changes: Partial<DaemonStatus>): void {
+    Object.assign(this.state, changes, { lastUpdate: Date.now() });
+    this.server?.broadcast({ ...this.state });
+    this.api?.broadcast({ ...this.state });
+    this.status?.update({ playing: this.state.playing, override: this.state.override });
+  }
 
-    server.listen(SOCKET_FILE);
+  // A manual request takes precedence over an override and ends it
+  private takeOver(manual: boolean): boolean {
+    if (manual && this.watcher?.active) {
+      this.watcher.reset();
+      this.update({ override: false });
+    }
+    return !this.watcher?.active;
   }
 
-  async handleStart(): Promise<void> {
-    if (this.state.playing) {
-      return; // Already playing
+  /**
+   * manual: requested by you (HTTP API) rather than by Claude's activity
+   */
+  async handleStart(state: ActivityState = 'working', manual = false): Promise<void> {
+    if (!this.controller || !this.takeOver(manual)) {
+      return;
     }
 
-    try {
-      if (this.state.mode === 'native') {
-        await playSpotifyNative();
-      } else {
-        await playSpotify();
+    // Not skipped when already playing: the controller may still need to
+    // un-duck or switch playlists, and is a no-op otherwise
+    const controller = this.controller;
+    if (await this.watcher!.run(() => controller.play(state))) {
+      if (!this.state.playing) {
+        this.update({ playing: true });
+        console.log(`[${new Date().toLocaleTimeString()}] ▶️  Music started`);
       }
-
-      this.state.playing = true;
-      this.state.lastUpdate = Date.now();
-      console.log(`[${new Date().toLocaleTimeString()}] ▶️  Music started`);
-    } catch (error: any) {
-      console.error('Failed to start music:', error.message);
+    } else {
+      console.error(`Failed to start music via ${this.controller.player.label}`);
     }
   }
 
-  async handleStop(): Promise<void> {
+  async handleStop(manual = false): Promise<void> {
+    if (!this.controller || !this.takeOver(manual)) {
+      return;
+    }
     if (!this.state.playing) {
       return; // Already stopped
     }
 
-    try {
-      if (this.state.mode === 'native') {
-        await pauseSpotifyNative();
-      } else {
-        await pauseSpotify();
-      }
-
-      this.state.playing = false;
-      this.state.lastUpdate = Date.now();
+    const controller = this.controller;
+    if (await this.watcher!.run(() => controller.pause())) {
+      this.update({ playing: false });
       console.log(`[${new Date().toLocaleTimeString()}] ⏸️  Music paused`);
-    } catch (error: any) {
-      console.error('Failed to pause music:', error.message);
+    } else {
+      console.error(`Failed to pause music via ${this.controller.player.label}`);
     }
   }
 
@@ -149,20 +208,24 @@ export class TuneInDaemon {
     fs.writeFileSync(STATE_FILE, JSON.stringify(this.state, null, 2));
   }
 
-  private shutdown(): void {
+  private async shutdown(): Promise<void> {
     console.log('\n🛑 Shutting down daemon...');
 
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
     }
-
-    // Pause music on shutdown
-    if (this.state.playing) {
-      if (this.state.mode === 'native') {
-        pauseSpotifyNative();
-      } else {
-        pauseSpotify();
-      }
+    this.router?.cancel();
+    this.watcher?.stop();
+    this.recorder?.stop();
+    this.events?.record({ kind: 'session-end' });
+    this.status?.clear();
+    this.server?.close();
+    this.api?.close();
+
+    // Pause music on shutdown, unless you've taken over
+    if (this.controller) {
+      if (!this.watcher?.active) await this.controller.stop();
+      await this.controller.player.dispose?.();
     }
 
     // Cleanup
@@ -180,27 +243,34 @@ export class TuneInDaemon {
   }
 }
 
-export async function sendDaemonCommand(command: 'start' | 'stop' | 'status'): Promise<string> {
-  const net = require('net');
-
-  return new Promise((resolve, reject) => {
-    const client = net.createConnection(SOCKET_FILE, () => {
-      client.write(command);
-    });
-
-    let response = '';
-    client.on('data', (data: Buffer) => {
-      response += data.toString();
-    });
-
-    client.on('end', () => {
-      resolve(response.trim());
-    });
+/**
+ * Connect to the daemon (or to another ProtocolServer at `socketPath`)
+ */
+export async function connectDaemon(socketPath: string = SOCKET_FILE): Promise<ProtocolClient> {
+  try {
+    return await ProtocolClient.connect(socketPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+      throw new Error('Daemon not running. Start it with: tune-in daemon');
+    }
+    throw error;
+  }
+}
 
-    client.on('error', (error: Error) => {
-      reject(new Error('Daemon not running. Start it with: tune-in daemon'));
-    });
-  });
+/**
+ * Send one request and disconnect
+ */
+export async function sendDaemonRequest<T extends RequestType>(
+  type: T,
+  params: RequestParams<T>,
+  socketPath: string = SOCKET_FILE
+): Promise<DaemonResults[T]> {
+  const client = await connectDaemon(socketPath);
+  try {
+    return await client.request(type, params);
+  } finally {
+    client.close();
+  }
 }
 
 export function isDaemonRunning(): boolean {
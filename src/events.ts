@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './config';
+import type { HookEvent } from './rules';
+
+export const EVENTS_FILE = path.join(CONFIG_DIR, 'events.jsonl');
+
+export type SessionSource = 'claude' | 'daemon' | 'command';
+
+export type ActivityEvent =
+  | { kind: 'session-start'; source: SessionSource; cwd: string; command?: string }
+  | { kind: 'session-end'; exitCode?: number }
+  // Claude started on a turn (you pressed Enter, or a tool call began)
+  | { kind: 'working' }
+  // Claude stopped or needs your input
+  | { kind: 'your-turn' }
+  | { kind: 'tool-start'; tool?: string }
+  | { kind: 'tool-end'; tool?: string }
+  // The player moved on to a new track
+  | { kind: 'track'; name: string; artist: string; uri?: string };
+
+export type LoggedEvent = ActivityEvent & {
+  // Epoch milliseconds
+  t: number;
+  session: string;
+};
+
+/**
+ * Appends what a session does to ~/.tune-in/events.jsonl, one JSON object per
+ * line, for `tune-in stats`. Logging never gets in the way of the session:
+ * write errors are swallowed.
+ */
+export class EventLog {
+  readonly session: string;
+
+  constructor(private enabled = true, private file = EVENTS_FILE) {
+    this.session = `${Date.now().toString(36)}-${process.pid}`;
+  }
+
+  record(event: ActivityEvent): void {
+    if (!this.enabled) return;
+    const entry: LoggedEvent = { t: Date.now(), session: this.session, ...event };
+    try {
+      if (this.file === EVENTS_FILE) ensureConfigDir();
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch {
+      // Stats are a nice-to-have
+    }
+  }
+
+  /**
+   * Record what a Claude Code hook event says about the session
+   */
+  hook(hook: HookEvent): void {
+    switch (hook.event) {
+      case 'PreToolUse':
+        return this.record({ kind: 'tool-start', tool: hook.tool });
+      case 'PostToolUse':
+        return this.record({ kind: 'tool-end', tool: hook.tool });
+      case 'Stop':
+      case 'Notification':
+        return this.record({ kind: 'your-turn' });
+    }
+  }
+}
+
+/**
+ * Every event in the log, oldest first. Lines that don't parse (e.g. cut off
+ * by a crash) are skipped.
+ */
+export function readEvents(file = EVENTS_FILE): LoggedEvent[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const events: LoggedEvent[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (typeof event.t === 'number' && typeof event.session === 'string' && typeof event.kind === 'string') {
+        events.push(event);
+      }
+    } catch {
+      // Skip it
+    }
+  }
+  return events.sort((a, b) => a.t - b.t);
+}
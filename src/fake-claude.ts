@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import { spawnSync } from 'child_process';
+import { CLAUDE_SETTINGS_FILE } from './claude-settings';
+import type { HookEventName } from './rules';
+
+/**
+ * A stand-in for Claude Code that plays back a script, for running
+ * tune-in-claude without Claude or an account:
+ *
+ *   TUNE_IN_CLAUDE_COMMAND=/path/to/dist/fake-claude.js \
+ *   TUNE_IN_FAKE_CLAUDE_SCRIPT=session.json tune-in-claude
+ *
+ * The script is a JSON array of steps, run in order:
+ *
+ *   { "print": "✻ Pondering… (esc to interrupt)\r\n" }   write to the terminal
+ *   { "hook": "PreToolUse", "tool": "Bash" }             run the hooks in ~/.claude/settings.json
+ *   { "wait": 500 }                                      sleep
+ *   { "input": true }                                    wait for Enter, like the prompt does
+ *   { "exit": 0 }                                        quit with this status
+ *
+ * Hooks run the way Claude Code runs them: through the shell, as children
+ * of this process, with the event as JSON on stdin.
+ */
+export type FakeClaudeStep =
+  | { print: string }
+  | { hook: HookEventName; tool?: string }
+  | { wait: number }
+  | { input: true }
+  | { exit: number };
+
+// A session without a script: think, use a tool, hand back
+const DEFAULT_SCRIPT: FakeClaudeStep[] = [
+  { print: '> ' },
+  { input: true },
+  { print: '✻ Pondering… (esc to interrupt)\r\n' },
+  { hook: 'PreToolUse', tool: 'Bash' },
+  { wait: 1000 },
+  { hook: 'PostToolUse', tool: 'Bash' },
+  { print: 'Done.\r\n' },
+  { hook: 'Stop' },
+  { print: '> ' },
+  { input: true },
+  { exit: 0 },
+];
+
+function loadScript(file: string | undefined): FakeClaudeStep[] {
+  if (!file) return DEFAULT_SCRIPT;
+  const steps = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(steps)) throw new Error(`${file}: expected a JSON array of steps`);
+  return steps;
+}
+
+// The hook commands configured for an event, as Claude Code would find them
+function hookCommands(event: HookEventName, tool: string | undefined): string[] {
+  let settings: any;
+  try {
+    settings = JSON.parse(fs.readFileSync(CLAUDE_SETTINGS_FILE, 'utf-8'));
+  } catch {
+    return [];
+  }
+  const entries = settings?.hooks?.[event];
+  if (!Array.isArray(entries)) return [];
+
+  const commands: string[] = [];
+  for (const entry of entries) {
+    if (entry?.matcher && tool && !new RegExp(`^(?:${entry.matcher})$`).test(tool)) continue;
+    for (const hook of entry?.hooks ?? []) {
+      if (hook?.type === 'command' && typeof hook.command === 'string') commands.push(hook.command);
+    }
+  }
+  return commands;
+}
+
+function runHooks(event: HookEventName, tool: string | undefined): void {
+  const input = JSON.stringify({
+    session_id: `fake-${process.pid}`,
+    cwd: process.cwd(),
+    hook_event_name: event,
+    ...(tool ? { tool_name: tool, tool_input: {} } : {}),
+  });
+  for (const command of hookCommands(event, tool)) {
+    spawnSync('/bin/sh', ['-c', command], { input, stdio: ['pipe', 'ignore', 'inherit'], timeout: 60000 });
+  }
+}
+
+function waitForEnter(): Promise<void> {
+  return new Promise(resolve => {
+    const onData = (data: Buffer) => {
+      // Raw mode turns Ctrl+C into a byte
+      if (data.includes(0x03)) process.exit(130);
+      if (!data.includes(0x0d) && !data.includes(0x0a)) return;
+      process.stdin.off('data', onData);
+      process.stdin.pause();
+      resolve();
+    };
+    process.stdin.on('data', onData);
+    process.stdin.resume();
+  });
+}
+
+async function main() {
+  const steps = loadScript(process.env.TUNE_IN_FAKE_CLAUDE_SCRIPT);
+  // Read keys one at a time, as Claude Code does
+  if (process.stdin.isTTY) process.stdin.setRawMode(true);
+
+  for (const step of steps) {
+    if ('print' in step) {
+      process.stdout.write(step.print);
+    } else if ('hook' in step) {
+      runHooks(step.hook, step.tool);
+    } else if ('wait' in step) {
+      await new Promise(resolve => setTimeout(resolve, step.wait));
+    } else if ('input' in step) {
+      await waitForEnter();
+    } else if ('exit' in step) {
+      process.exit(step.exit);
+    }
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(`fake-claude: ${error.message}`);
+  process.exit(1);
+});
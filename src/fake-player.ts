@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MusicPlayer, PlayerCapabilities, PlaybackState, Track } from './player';
+
+const DEFAULT_TRACK: Track = {
+  name: 'Fake Track',
+  artist: 'tune-in',
+  album: 'Fixtures',
+  durationMs: 180000,
+  progressMs: 0,
+  uri: 'spotify:track:fake',
+};
+
+/**
+ * One call tune-in made on the player, in the order they happened
+ */
+export interface FakePlayerCall {
+  method: 'play' | 'pause' | 'setVolume' | 'playContext' | 'playUri' | 'setShuffle';
+  arg?: number | string | boolean;
+  pid: number;
+  at: number;
+}
+
+/**
+ * Everything the fake player knows, and what's in its state file
+ */
+export interface FakePlayerState {
+  state: 'playing' | 'paused';
+  volume: number;
+  track: Track | null;
+  calls: FakePlayerCall[];
+}
+
+export interface FakePlayerOptions {
+  // Keep the state here instead of in memory, so other processes (the
+  // daemon, a test harness) share and can inspect it
+  file?: string;
+}
+
+function initialState(): FakePlayerState {
+  return { state: 'paused', volume: 50, track: { ...DEFAULT_TRACK }, calls: [] };
+}
+
+/**
+ * A player that plays nothing: it only remembers what it was asked to do.
+ * For trying tune-in out without a music app, and for scripting it end to
+ * end. Never picked automatically; select it with TUNE_IN_PLAYER=fake.
+ *
+ * Edit the state file while tune-in runs to act as the user, e.g. set
+ * "state" to "paused" to trigger an override.
+ */
+export class FakePlayer implements MusicPlayer {
+  readonly id = 'fake';
+  readonly label = 'Fake player';
+  readonly capabilities: PlayerCapabilities = {
+    state: true,
+    nowPlaying: true,
+    volume: true,
+    contexts: true,
+  };
+
+  private memory: FakePlayerState | null = null;
+
+  constructor(private options: FakePlayerOptions = {}) {}
+
+  private read(): FakePlayerState {
+    if (!this.options.file) {
+      this.memory ??= initialState();
+      return this.memory;
+    }
+    try {
+      return { ...initialState(), ...JSON.parse(fs.readFileSync(this.options.file, 'utf-8')) };
+    } catch {
+      return initialState();
+    }
+  }
+
+  private write(state: FakePlayerState): void {
+    if (!this.options.file) {
+      this.memory = state;
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.options.file), { recursive: true });
+    // Renamed into place so a reader never sees half a file
+    const temp = `${this.options.file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(state, null, 2));
+    fs.renameSync(temp, this.options.file);
+  }
+
+  private record(method: FakePlayerCall['method'], changes: Partial<FakePlayerState>, arg?: number | string | boolean): true {
+    const state = this.read();
+    const call: FakePlayerCall = { method, pid: process.pid, at: Date.now() };
+    if (arg !== undefined) call.arg = arg;
+    this.write({ ...state, ...changes, calls: [...state.calls, call] });
+    return true;
+  }
+
+  /**
+   * What's happened so far
+   */
+  snapshot(): FakePlayerState {
+    return this.read();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async play(): Promise<boolean> {
+    return this.record('play', { state: 'playing' });
+  }
+
+  async pause(): Promise<boolean> {
+    return this.record('pause', { state: 'paused' });
+  }
+
+  async getState(): Promise<PlaybackState> {
+    return this.read().state;
+  }
+
+  async getNowPlaying(): Promise<Track | null> {
+    return this.read().track;
+  }
+
+  async getVolume(): Promise<number | null> {
+    return this.read().volume;
+  }
+
+  async setVolume(volume: number): Promise<boolean> {
+    return this.record('setVolume', { volume: Math.max(0, Math.min(100, Math.round(volume))) }, volume);
+  }
+
+  async playContext(contextUri: string): Promise<boolean> {
+    return this.record('playContext', { state: 'playing' }, contextUri);
+  }
+
+  async playUri(uri: string): Promise<boolean> {
+    return this.record('playUri', { state: 'playing', track: { name: uri, artist: '', uri } }, uri);
+  }
+
+  async setShuffle(enabled: boolean): Promise<boolean> {
+    return this.record('setShuffle', {}, enabled);
+  }
+}
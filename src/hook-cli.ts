@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+// What tune-in-claude's hooks run: Claude Code waits for a hook before it
+// goes on with the tool call, so this loads the socket protocol and nothing
+// else (no players, no settings, nothing from node_modules). Does what
+// `tune-in signal hook --socket <path>` does.
+
+import { ProtocolClient } from './protocol';
+import { parseHookInput } from './rules';
+
+function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return Promise.resolve('');
+  return new Promise((resolve) => {
+    let input = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => { input += chunk; });
+    process.stdin.on('end', () => resolve(input));
+  });
+}
+
+/**
+ * Forward the hook event Claude Code passes on stdin to the wrapper
+ * listening on `socketPath`
+ */
+export async function forwardHook(socketPath: string): Promise<void> {
+  const hook = parseHookInput(await readStdin());
+  if (!hook) return;
+  const client = await ProtocolClient.connect(socketPath, 'tune-in-hook');
+  try {
+    await client.request('hook', hook);
+  } finally {
+    client.close();
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const socketIdx = args.indexOf('--socket');
+  if (socketIdx === -1 || !args[socketIdx + 1]) {
+    console.error('\n❌ Usage: hook-cli --socket <path>\n');
+    process.exit(1);
+  }
+  forwardHook(args[socketIdx + 1]).catch((error: any) => {
+    console.error(`\n❌ ${error.message}\n`);
+    process.exit(1);
+  });
+}
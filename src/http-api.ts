@@ -0,0 +1,219 @@
+import express from 'express';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import type { Duplex } from 'stream';
+import { CONFIG_DIR, ensureConfigDir } from './config';
+import type { Track } from './player';
+import type { DaemonEvent, DaemonStatus, ErrorCode } from './protocol';
+
+export const API_TOKEN_FILE = path.join(CONFIG_DIR, 'api-token');
+
+// Fixed by RFC 6455 for computing Sec-WebSocket-Accept
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export type ApiErrorCode = ErrorCode | 'unauthorized' | 'not_found';
+
+/**
+ * The bearer token clients must send. Generated on first use and readable
+ * only by you.
+ */
+export function loadApiToken(): string {
+  try {
+    const token = fs.readFileSync(API_TOKEN_FILE, 'utf-8').trim();
+    if (token) return token;
+  } catch {
+    // Not generated yet
+  }
+  ensureConfigDir();
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.writeFileSync(API_TOKEN_FILE, token + '\n', { mode: 0o600 });
+  return token;
+}
+
+function tokenMatches(expected: string, given: string | undefined): boolean {
+  if (!given) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Browsers can't set headers on a WebSocket, so ?token= is accepted there too
+function requestToken(req: http.IncomingMessage, allowQuery: boolean): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+  if (!allowQuery) return undefined;
+  return new URL(req.url || '/', 'http://localhost').searchParams.get('token') ?? undefined;
+}
+
+// One unmasked, unfragmented server-to-client frame
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Answers pings and closes; everything else a client sends is ignored
+function handleClientFrames(socket: Duplex): void {
+  let buffer = Buffer.alloc(0);
+  socket.on('data', (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data]);
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+      if (mask) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+        return;
+      }
+      if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+    }
+  });
+}
+
+export interface ApiHandlers {
+  status(): DaemonStatus;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  nowPlaying(): Promise<Track | null>;
+}
+
+/**
+ * The daemon over HTTP, for editors and launchers that can't easily speak
+ * the socket protocol. Only listens on 127.0.0.1, and every request needs
+ * the bearer token from ~/.tune-in/api-token.
+ *
+ *   GET  /status       GET  /now-playing
+ *   POST /play         POST /pause
+ *   GET  /events       WebSocket: the status, then one message per change
+ */
+export class HttpApi {
+  private server?: http.Server;
+  private clients = new Set<Duplex>();
+
+  constructor(private handlers: ApiHandlers, private token: string) {}
+
+  private app(): express.Express {
+    const app = express();
+
+    const fail = (res: express.Response, status: number, code: ApiErrorCode, message: string) => {
+      res.status(status).json({ ok: false, error: { code, message } });
+    };
+
+    app.use((req, res, next) => {
+      if (tokenMatches(this.token, requestToken(req, false))) return next();
+      fail(res, 401, 'unauthorized', 'Missing or wrong bearer token (see ~/.tune-in/api-token)');
+    });
+
+    const route = (handler: () => unknown) => async (_req: express.Request, res: express.Response) => {
+      try {
+        res.json({ ok: true, result: (await handler()) ?? null });
+      } catch (error: any) {
+        fail(res, 500, 'internal', error.message);
+      }
+    };
+
+    app.get('/status', route(() => this.handlers.status()));
+    app.get('/now-playing', route(() => this.handlers.nowPlaying()));
+    app.post('/play', route(async () => {
+      await this.handlers.play();
+      return this.handlers.status();
+    }));
+    app.post('/pause', route(async () => {
+      await this.handlers.pause();
+      return this.handlers.status();
+    }));
+
+    app.use((req, res) => fail(res, 404, 'not_found', `No route for ${req.method} ${req.path}`));
+    return app;
+  }
+
+  private upgrade(req: http.IncomingMessage, socket: Duplex): void {
+    const reject = (status: string) => {
+      socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+    };
+
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const key = req.headers['sec-websocket-key'];
+    if (pathname !== '/events' || typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+      return reject('404 Not Found');
+    }
+    if (!tokenMatches(this.token, requestToken(req, true))) {
+      return reject('401 Unauthorized');
+    }
+
+    const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'));
+
+    this.clients.add(socket);
+    socket.on('error', () => {});
+    socket.on('close', () => this.clients.delete(socket));
+    handleClientFrames(socket);
+    this.send(socket, { event: 'state', state: this.handlers.status() });
+  }
+
+  private send(socket: Duplex, event: DaemonEvent): void {
+    if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(event))));
+  }
+
+  listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer(this.app());
+      this.server.on('upgrade', (req, socket) => this.upgrade(req, socket));
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => resolve());
+    });
+  }
+
+  /**
+   * Push a state change to every WebSocket client
+   */
+  broadcast(state: DaemonStatus): void {
+    for (const socket of this.clients) this.send(socket, { event: 'state', state });
+  }
+
+  close(): void {
+    for (const socket of this.clients) socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    this.clients.clear();
+    this.server?.close();
+  }
+}
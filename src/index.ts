@@ -1,11 +1,36 @@
 #!/usr/bin/env node
 
 import { spawn } from 'child_process';
-import { startAuthFlow } from './auth';
-import { playSpotify, pauseSpotify } from './spotify';
-import { isSpotifyRunning, playSpotifyNative, pauseSpotifyNative } from './spotify-native';
-import { loadConfig, clearConfig } from './config';
-import { TuneInDaemon, sendDaemonCommand, isDaemonRunning, stopDaemon } from './daemon';
+import * as pty from 'node-pty';
+import { startAuthFlow, authOptionsFromSettings } from './auth';
+import { resolvePlayer, createPlayer, isPlayerId } from './player';
+import { createController } from './transitions';
+import { parseHookInput } from './rules';
+import {
+  SCHEMA,
+  SETTINGS_FILE,
+  PROJECT_SETTINGS_NAME,
+  loadSettings,
+  loadSettingsWithSources,
+  getSetting,
+  parseCliValue,
+  writeSetting,
+} from './settings';
+import * as path from 'path';
+import { createCredentialStore } from './credentials';
+import { createSpotifyClient } from './spotify';
+import type { SpotifyDevice } from './spotify';
+import { runStatuslineCommand } from './statusline-cli';
+import { TuneInDaemon, connectDaemon, sendDaemonRequest, isDaemonRunning, stopDaemon } from './daemon';
+import type { DaemonStatus } from './protocol';
+import { loadApiToken } from './http-api';
+import { EventLog, readEvents } from './events';
+import { computeStats, formatDuration, statsToCsv } from './stats';
+import { TrackRecorder, buildSoundtracks, soundtrackToM3u, soundtrackToUris } from './soundtrack';
+import { describeOutcome, exitStatus, matchCompletionRule, notifyTerminal, runCompletionAction, signalName } from './completion';
+import { OutputActivityDetector, commandActivityOptionsFromSettings } from './output-activity';
+import type { OutputActivity } from './output-activity';
+import type { CommandOutcome } from './completion';
 import chalk from 'chalk';
 
 function showHelp(): void {
@@ -14,14 +39,43 @@ ${chalk.bold('tune-in')} - Sync Spotify with your tasks
 
 ${chalk.bold('Basic Usage:')}
   tune-in <command>         Run command with music sync
-  tune-in auth              Authenticate with Spotify Web API (optional)
+  tune-in --pty <command>   ...and pause while it waits for input or goes quiet
+  tune-in auth [--headless] Authenticate with Spotify Web API (optional; --headless: paste the redirect back)
   tune-in logout            Remove stored credentials
+  tune-in devices [--json]  List Spotify devices (Web API)
+
+${chalk.bold('Settings:')}
+  tune-in config list               Show all settings and where they come from
+  tune-in config get <key>          Show one setting
+  tune-in config set <key> <value>  Change a setting (--project: in ./${PROJECT_SETTINGS_NAME})
+  tune-in config unset <key>        Back to the default (--project: in ./${PROJECT_SETTINGS_NAME})
+
+${chalk.bold('Stats:')}
+  tune-in stats                     Time Claude worked vs waited on you, per day and session
+  tune-in stats --days 30 --format csv --by day > stats.csv
+                                    Export (--format csv|json, --by session|day, --days 0: all)
+
+${chalk.bold('Soundtrack:')}
+  tune-in soundtrack                Tracks that played during the last session
+  tune-in soundtrack list           Sessions with recorded tracks
+  tune-in soundtrack <session> --format m3u|json|uris
+                                    Export a session's tracks
+
+${chalk.bold('Status Line:')}
+  tune-in statusline                Track and Claude's state in one line, for Claude Code's
+                                    statusLine, tmux or your prompt (--theme plain|ansi|tmux);
+                                    tune-in-statusline does the same and starts faster
 
 ${chalk.bold('Daemon Mode (for Claude Code integration):')}
-  tune-in daemon            Start background daemon
+  tune-in daemon [--http]   Start background daemon (--http: also serve the HTTP API)
   tune-in signal start      Tell daemon to play music
   tune-in signal stop       Tell daemon to pause music
+  tune-in signal tool-end   Tell daemon a tool call finished
+  tune-in signal hook       Forward a Claude Code hook event (reads stdin)
+  tune-in shuffle on|off    Shuffle the daemon's playlist, or put it back in order (mpv)
+  tune-in watch [--json]    Show playback changes live
   tune-in daemon stop       Stop the daemon
+  tune-in daemon token      Print the HTTP API token
 
 ${chalk.bold('Examples:')}
   tune-in npm run build
@@ -37,91 +91,415 @@ ${chalk.bold('How it works:')}
   `);
 }
 
+function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return Promise.resolve('');
+  return new Promise((resolve) => {
+    let input = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => { input += chunk; });
+    process.stdin.on('end', () => resolve(input));
+  });
+}
+
+function formatSetting(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function runConfigCommand(args: string[]): void {
+  const [action, key, ...rest] = args.filter(a => a !== '--project');
+  const projectFile = path.join(process.cwd(), PROJECT_SETTINGS_NAME);
+  const file = args.includes('--project') ? projectFile : SETTINGS_FILE;
+
+  switch (action) {
+    case undefined:
+    case 'list': {
+      const { settings, sources, projectFile: activeProject } = loadSettingsWithSources();
+      console.log(chalk.bold(`\n⚙️  Settings`) + chalk.dim(` (${SETTINGS_FILE}${activeProject ? `, ${activeProject}` : ''})\n`));
+      for (const name of Object.keys(SCHEMA)) {
+        const source = sources[name] === 'default' ? '' : chalk.dim(` (${sources[name]})`);
+        console.log(`  ${chalk.cyan(name)} = ${formatSetting(getSetting(settings, name))}${source}`);
+      }
+      console.log();
+      break;
+    }
+
+    case 'get':
+      if (!key) {
+        console.error(chalk.red('\n❌ Usage: tune-in config get <key>\n'));
+        process.exit(1);
+      }
+      console.log(formatSetting(getSetting(loadSettings(), key)));
+      break;
+
+    case 'set':
+      if (!key || rest.length === 0) {
+        console.error(chalk.red('\n❌ Usage: tune-in config set <key> <value> [--project]\n'));
+        process.exit(1);
+      }
+      writeSetting(key, parseCliValue(key, rest.join(' ')), file);
+      // Catch anything that only fails in combination with the other files
+      loadSettings();
+      console.log(chalk.green(`\n✅ ${key} = ${formatSetting(getSetting(loadSettings(), key))}\n`));
+      break;
+
+    case 'unset':
+      if (!key || !(key in SCHEMA)) {
+        console.error(chalk.red('\n❌ Usage: tune-in config unset <key> [--project]\n'));
+        process.exit(1);
+      }
+      writeSetting(key, undefined, file);
+      console.log(chalk.green(`\n✅ ${key} unset\n`));
+      break;
+
+    default:
+      console.error(chalk.red(`\n❌ Unknown config command "${action}" (expected list, get, set or unset)\n`));
+      process.exit(1);
+  }
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function runStatsCommand(args: string[]): void {
+  const days = Number(flagValue(args, '--days') ?? 7);
+  const format = flagValue(args, '--format') ?? 'text';
+  const by = flagValue(args, '--by') ?? 'session';
+  if (!Number.isInteger(days) || days < 0 || !['text', 'csv', 'json'].includes(format) || (by !== 'session' && by !== 'day')) {
+    console.error(chalk.red('\n❌ Usage: tune-in stats [--days N] [--format text|csv|json] [--by session|day]\n'));
+    process.exit(1);
+  }
+
+  // --days 0: everything in the log
+  const since = days === 0 ? undefined : Date.now() - days * 24 * 60 * 60 * 1000;
+  const stats = computeStats(readEvents(), { since });
+
+  if (format === 'json') {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+  if (format === 'csv') {
+    process.stdout.write(statsToCsv(stats, by));
+    return;
+  }
+
+  const period = days === 0 ? 'all time' : `last ${days} day${days === 1 ? '' : 's'}`;
+  console.log(chalk.bold(`\n📊 tune-in stats`) + chalk.dim(` (${period})\n`));
+  if (stats.sessions.length === 0) {
+    console.log(chalk.dim('  No sessions yet. Run tune-in-claude and come back.\n'));
+    return;
+  }
+
+  const row = (cells: string[]) => '  ' + cells[0].padEnd(12) + cells.slice(1).map(c => c.padStart(10)).join('  ');
+  console.log(chalk.dim(row(['Day', 'Sessions', 'Claude', 'You', 'Turns', 'Tools'])));
+  for (const day of stats.days) {
+    console.log(row([day.day, String(day.sessions), formatDuration(day.workingMs), formatDuration(day.waitingMs), String(day.turns), String(day.toolCalls)]));
+  }
+
+  console.log(chalk.bold('\n  Recent sessions'));
+  for (const session of stats.sessions.slice(-10)) {
+    const where = session.command ?? (session.cwd ? path.basename(session.cwd) : session.source);
+    console.log(
+      `  ${new Date(session.start).toLocaleString()}  ${chalk.cyan(where)}` +
+      chalk.dim(`  Claude ${formatDuration(session.workingMs)}, you ${formatDuration(session.waitingMs)}, ${session.turns} turn(s)`)
+    );
+  }
+
+  if (stats.longestTools.length > 0) {
+    console.log(chalk.bold('\n  Longest tool runs'));
+    for (const run of stats.longestTools) {
+      console.log(`  ${formatDuration(run.durationMs).padStart(8)}  ${chalk.cyan(run.tool)}` + chalk.dim(`  ${new Date(run.start).toLocaleString()}`));
+    }
+  }
+  console.log();
+}
+
+function runSoundtrackCommand(args: string[]): void {
+  const format = flagValue(args, '--format') ?? 'text';
+  const wanted = args.find((arg, i) => !arg.startsWith('--') && !(i > 0 && args[i - 1] === '--format'));
+  if (!['text', 'm3u', 'json', 'uris'].includes(format)) {
+    console.error(chalk.red('\n❌ Usage: tune-in soundtrack [list|<session>] [--format text|m3u|json|uris]\n'));
+    process.exit(1);
+  }
+
+  const soundtracks = buildSoundtracks(readEvents());
+  if (soundtracks.length === 0) {
+    console.error(chalk.yellow('\nNo tracks recorded yet\n'));
+    process.exit(1);
+  }
+
+  if (wanted === 'list') {
+    console.log();
+    for (const soundtrack of soundtracks.slice(-20)) {
+      const where = soundtrack.command ?? (soundtrack.cwd ? path.basename(soundtrack.cwd) : '');
+      console.log(`  ${chalk.cyan(soundtrack.session)}  ${new Date(soundtrack.start).toLocaleString()}  ${where}` +
+        chalk.dim(`  ${soundtrack.tracks.length} track(s)`));
+    }
+    console.log();
+    return;
+  }
+
+  // A session id (or the start of one), or the latest session by default
+  const soundtrack = wanted
+    ? soundtracks.filter(s => s.session.startsWith(wanted)).pop()
+    : soundtracks[soundtracks.length - 1];
+  if (!soundtrack) {
+    console.error(chalk.red(`\n❌ No soundtrack for session "${wanted}" (see tune-in soundtrack list)\n`));
+    process.exit(1);
+  }
+
+  switch (format) {
+    case 'm3u':
+      process.stdout.write(soundtrackToM3u(soundtrack));
+      return;
+    case 'json':
+      console.log(JSON.stringify(soundtrack, null, 2));
+      return;
+    case 'uris':
+      process.stdout.write(soundtrackToUris(soundtrack));
+      return;
+  }
+
+  console.log(chalk.bold(`\n🎧 Soundtrack of ${soundtrack.session}`) + chalk.dim(` (${new Date(soundtrack.start).toLocaleString()})\n`));
+  for (const track of soundtrack.tracks) {
+    const during = track.turn === 0
+      ? 'before the first turn'
+      : track.claudeWorking
+        ? `turn ${track.turn}${track.tool ? `, during ${track.tool}` : ''}`
+        : `your turn after turn ${track.turn}`;
+    console.log(`  ${new Date(track.playedAt).toLocaleTimeString()}  ${chalk.bold(track.name)}` +
+      (track.artist ? chalk.dim(` by ${track.artist}`) : '') + chalk.dim(`  (${during})`));
+  }
+  console.log();
+}
+
+// What spawn(command, args, { shell: true }) would run. node-pty passes a
+// string of arguments to Windows as is, like Node does for cmd.exe.
+function shellCommand(line: string): [string, string[] | string] {
+  return process.platform === 'win32'
+    ? [process.env.ComSpec || 'cmd.exe', `/d /s /c "${line}"`]
+    : ['/bin/sh', ['-c', line]];
+}
+
 async function runCommand(args: string[]): Promise<void> {
+  // --pty / --no-pty before the command override the command.pty setting
+  let ptyFlag: boolean | undefined;
+  while (args[0] === '--pty' || args[0] === '--no-pty') {
+    ptyFlag = args[0] === '--pty';
+    args = args.slice(1);
+  }
+  if (args.length === 0) {
+    console.error(chalk.red('\n❌ Usage: tune-in [--pty] <command>\n'));
+    process.exit(1);
+  }
   const command = args[0];
   const commandArgs = args.slice(1);
 
   console.log(chalk.dim(`\n▶️  Starting: ${args.join(' ')}\n`));
 
-  // Check if Spotify Desktop is running
-  const spotifyRunning = await isSpotifyRunning();
-  let useLocalMode = spotifyRunning;
-
-  // If Spotify Desktop not running, check for Web API auth
-  if (!spotifyRunning) {
-    const config = loadConfig();
-    if (!config.accessToken || !config.refreshToken) {
-      console.error(chalk.red('❌ Spotify not running and not authenticated with Web API.\n'));
-      console.log('Two options:');
-      console.log('  1. ' + chalk.cyan('Open Spotify Desktop') + ' (easier, no setup needed)');
-      console.log('  2. Run ' + chalk.cyan('tune-in auth') + ' to use Web API\n');
-      process.exit(1);
-    }
-    useLocalMode = false;
+  // Spotify Desktop if it's running, otherwise the Web API
+  const settings = loadSettings();
+  const usePty = ptyFlag ?? settings.command.pty;
+  const player = await resolvePlayer(settings);
+
+  if (!player) {
+    console.error(chalk.red('❌ Spotify not running and not authenticated with Web API.\n'));
+    console.log('Options:');
+    console.log('  1. ' + chalk.cyan('Open Spotify Desktop') + ' (easier, no setup needed)');
+    console.log('  2. Run ' + chalk.cyan('tune-in auth') + ' to use Web API');
+    console.log('  3. Run ' + chalk.cyan('tune-in config set mpv.music <folder>') + ' to play local files with mpv\n');
+    process.exit(1);
   }
 
-  console.log(chalk.dim(`Mode: ${useLocalMode ? 'Spotify Desktop' : 'Web API'}\n`));
+  console.log(chalk.dim(`Mode: ${player.label}\n`));
+  const controller = createController(player, settings);
+
+  // The whole run counts as one working turn in tune-in stats
+  const events = new EventLog(settings.stats.enabled);
+  events.record({ kind: 'session-start', source: 'command', cwd: process.cwd(), command: args.join(' ') });
+  events.record({ kind: 'working' });
+  const recorder = new TrackRecorder(player, events, settings.soundtrack.pollMs);
 
   // Start music
   let musicStarted = false;
-  try {
-    if (useLocalMode) {
-      const success = await playSpotifyNative();
-      if (success) {
-        console.log(chalk.green('🎵 Music playing\n'));
-        musicStarted = true;
-      } else {
-        console.log(chalk.yellow('⚠️  Could not start Spotify - make sure it\'s open\n'));
-      }
-    } else {
-      await playSpotify();
-      console.log(chalk.green('🎵 Music playing\n'));
-      musicStarted = true;
-    }
-  } catch (error: any) {
-    console.error(chalk.yellow(`⚠️  Could not start music: ${error.message}\n`));
+  if (await controller.play()) {
+    console.log(chalk.green('🎵 Music playing\n'));
+    musicStarted = true;
+    recorder.start();
+  } else {
+    console.log(chalk.yellow(`⚠️  Could not start music via ${player.label}\n`));
   }
 
-  // Run the command
-  const child = spawn(command, commandArgs, {
-    stdio: 'inherit',
-    shell: true,
-  });
-
-  const pauseMusic = async () => {
-    if (!musicStarted) return;
+  // Ctrl+C reaches both us and the command, so this can be called twice
+  let finished = false;
+  let stopPty = () => {};
+  const finish = async (outcome: CommandOutcome) => {
+    if (finished) return;
+    finished = true;
+    stopPty();
+    const status = exitStatus(outcome);
+    events.record({ kind: 'session-end', exitCode: status });
+    recorder.stop();
+    notifyTerminal(settings.completion.notify, `tune-in: ${args.join(' ')} ${describeOutcome(outcome)}`);
 
-    try {
-      if (useLocalMode) {
-        await pauseSpotifyNative();
+    if (musicStarted) {
+      // The "completion.rules" setting decides; pausing is the default
+      const rule = matchCompletionRule(settings.completion.rules, outcome);
+      const result = await runCompletionAction(rule, player, controller);
+      if (result.ok) {
+        console.log(chalk.dim(`\n${result.message}\n`));
       } else {
-        await pauseSpotify();
+        console.error(chalk.yellow(`\n${result.message}\n`));
+      }
+      if (result.playing) {
+        // Don't take the music down with us (mpv is our child)
+        const hint = player.detach?.();
+        if (hint) console.log(chalk.dim(`${hint}\n`));
+      } else {
+        await player.dispose?.();
       }
-      console.log(chalk.dim('\n⏸️  Music paused\n'));
-    } catch (error: any) {
-      console.error(chalk.yellow(`⚠️  Could not pause music: ${error.message}\n`));
     }
+    process.exit(status);
   };
 
-  child.on('exit', async (code) => {
-    await pauseMusic();
-    process.exit(code || 0);
-  });
+  if (usePty) {
+    // In a pseudo-terminal the command still gets a real terminal, and we
+    // see its output: silence or a prompt means it's waiting on you
+    let child: pty.IPty;
+    try {
+      const [shell, shellArgs] = shellCommand(args.join(' '));
+      child = pty.spawn(shell, shellArgs, {
+        name: process.env.TERM || 'xterm-256color',
+        cols: process.stdout.columns || 80,
+        rows: process.stdout.rows || 24,
+        cwd: process.cwd(),
+        env: { ...process.env },
+      });
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error running command: ${error.message}\n`));
+      await finish({ code: 1, signal: null });
+      return;
+    }
 
-  child.on('error', async (error) => {
-    console.error(chalk.red(`\n❌ Error running command: ${error.message}\n`));
-    await pauseMusic();
-    process.exit(1);
-  });
+    const detector = new OutputActivityDetector(commandActivityOptionsFromSettings(settings));
+    detector.start(Date.now());
+    const onActivity = (activity: OutputActivity | null) => {
+      if (!activity || !musicStarted || finished) return;
+      if (activity === 'working') {
+        events.record({ kind: 'working' });
+        controller.play().catch(() => false);
+      } else {
+        events.record({ kind: 'your-turn' });
+        controller.pause().catch(() => false);
+      }
+    };
+    const timer = setInterval(() => onActivity(detector.tick(Date.now())), 500);
+
+    child.onData((data: string) => {
+      process.stdout.write(data);
+      onActivity(detector.feed(data, Date.now()));
+    });
+    const onResize = () => child.resize(process.stdout.columns || 80, process.stdout.rows || 24);
+    process.stdout.on('resize', onResize);
+
+    // Keys go to the command untouched; Ctrl+C included
+    const onInput = (data: Buffer) => child.write(data);
+    if (process.stdin.isTTY) process.stdin.setRawMode(true);
+    process.stdin.on('data', onInput);
+    process.stdin.resume();
+
+    stopPty = () => {
+      clearInterval(timer);
+      process.stdout.off('resize', onResize);
+      process.stdin.off('data', onInput);
+      if (process.stdin.isTTY) process.stdin.setRawMode(false);
+      process.stdin.pause();
+    };
+    child.onExit(({ exitCode, signal }) => {
+      finish(signal ? { code: null, signal: signalName(signal) } : { code: exitCode, signal: null });
+    });
+  } else {
+    const child = spawn(command, commandArgs, {
+      stdio: 'inherit',
+      shell: true,
+    });
+
+    child.on('exit', (code, signal) => finish({ code, signal }));
+
+    child.on('error', (error) => {
+      console.error(chalk.red(`\n❌ Error running command: ${error.message}\n`));
+      finish({ code: 1, signal: null });
+    });
+  }
 
   // Handle Ctrl+C gracefully
-  process.on('SIGINT', async () => {
+  process.on('SIGINT', () => {
     console.log(chalk.dim('\n\n⏸️  Task interrupted\n'));
-    await pauseMusic();
-    process.exit(130);
+    finish({ code: null, signal: 'SIGINT' });
   });
 }
 
+async function runDevicesCommand(args: string[]): Promise<void> {
+  const settings = loadSettings();
+  const client = createSpotifyClient(settings);
+  if (!client.isAuthenticated()) {
+    console.error(chalk.red('\n❌ Not authenticated. Run: tune-in auth\n'));
+    process.exit(1);
+  }
+
+  let devices: SpotifyDevice[];
+  try {
+    devices = await client.getDevices();
+  } catch (error: any) {
+    console.error(chalk.red(`\n❌ ${error.message}\n`));
+    process.exit(1);
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(devices, null, 2));
+    return;
+  }
+  if (devices.length === 0) {
+    console.log(chalk.dim('\nNo Spotify devices online. Open Spotify on any device.\n'));
+    return;
+  }
+
+  const preferred = settings.spotify.device?.toLowerCase();
+  console.log(chalk.bold('\n🔈 Spotify devices:\n'));
+  for (const device of devices) {
+    const marks = [
+      device.isActive ? chalk.green('active') : null,
+      preferred && (device.id === settings.spotify.device || device.name.toLowerCase() === preferred) ? chalk.cyan('preferred') : null,
+      device.isRestricted ? chalk.yellow('can\'t be controlled') : null,
+    ].filter(Boolean);
+    console.log(`  ${device.name} ${chalk.dim(`(${device.type.toLowerCase()}, ${device.id ?? 'no id'})`)}${marks.length > 0 ? ` ${marks.join(', ')}` : ''}`);
+  }
+  console.log(chalk.dim(`\nPlay on one when nothing is active: tune-in config set spotify.device "<name>"\n`));
+}
+
+function runLogoutCommand(): void {
+  const store = createCredentialStore(loadSettings());
+  let wiped: boolean;
+  try {
+    wiped = store.clear();
+  } catch (error: any) {
+    console.error(chalk.red(`\n❌ Couldn't remove credentials: ${error.message}\n`));
+    process.exit(1);
+  }
+
+  if (wiped) {
+    console.log(chalk.green('\n✅ Logged out successfully\n'));
+  } else if (store.id === 'env') {
+    console.log(chalk.yellow('\n⚠️  Credentials come from the environment: unset SPOTIFY_REFRESH_TOKEN and SPOTIFY_ACCESS_TOKEN to log out\n'));
+  } else {
+    console.log(chalk.yellow('\n⚠️  No credentials.saveCommand is set: remove the tokens from wherever credentials.command reads them\n'));
+  }
+  // Spotify has no endpoint for revoking a token; the grant itself is
+  // withdrawn from the account page
+  console.log(chalk.dim('To revoke tune-in\'s access to your account, remove it at https://www.spotify.com/account/apps/\n'));
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
@@ -135,7 +513,10 @@ async function main(): Promise<void> {
   switch (command) {
     case 'auth':
       try {
-        await startAuthFlow();
+        // Over SSH the browser is on another machine and can't reach our callback
+        const headless = args.includes('--headless') || (!!process.env.SSH_CONNECTION && !args.includes('--browser'));
+        const settings = loadSettings();
+        await startAuthFlow(authOptionsFromSettings(settings, headless), createCredentialStore(settings));
         console.log(chalk.green('\n✅ Successfully authenticated with Spotify!\n'));
         console.log('You can now run commands with: ' + chalk.cyan('tune-in <command>') + '\n');
       } catch (error: any) {
@@ -144,47 +525,102 @@ async function main(): Promise<void> {
       }
       break;
 
+    case 'config':
+      runConfigCommand(args.slice(1));
+      break;
+
+    case 'stats':
+      runStatsCommand(args.slice(1));
+      break;
+
+    case 'soundtrack':
+      runSoundtrackCommand(args.slice(1));
+      break;
+
+    case 'statusline':
+      runStatuslineCommand(args.slice(1));
+      break;
+
+    case 'devices':
+      await runDevicesCommand(args.slice(1));
+      break;
+
     case 'logout':
-      clearConfig();
-      console.log(chalk.green('\n✅ Logged out successfully\n'));
+      runLogoutCommand();
       break;
 
     case 'daemon':
       if (args[1] === 'stop') {
         stopDaemon();
+      } else if (args[1] === 'token') {
+        // Plain output so scripts can use $(tune-in daemon token)
+        console.log(loadApiToken());
       } else {
         const daemon = new TuneInDaemon();
-        await daemon.start();
+        await daemon.start({ http: args.includes('--http') });
       }
       break;
 
-    case 'signal':
-      if (!args[1]) {
-        console.error(chalk.red('\n❌ Usage: tune-in signal <start|stop>\n'));
+    case 'signal': {
+      const signal = args[1];
+      if (!signal) {
+        console.error(chalk.red('\n❌ Usage: tune-in signal <start|stop|tool-end|hook>\n'));
+        process.exit(1);
+      }
+
+      if (signal !== 'start' && signal !== 'stop' && signal !== 'tool-end' && signal !== 'hook') {
+        console.error(chalk.red('\n❌ Signal must be "start", "stop", "tool-end" or "hook"\n'));
         process.exit(1);
       }
 
-      if (args[1] !== 'start' && args[1] !== 'stop') {
-        console.error(chalk.red('\n❌ Signal must be "start" or "stop"\n'));
+      // --socket lets tune-in-claude's hooks signal the wrapper instead of the daemon
+      const socketIdx = args.indexOf('--socket');
+      const socketPath = socketIdx !== -1 ? args[socketIdx + 1] : undefined;
+
+      try {
+        if (signal === 'hook') {
+          // Forward the event Claude Code passes the hook on stdin
+          const hook = parseHookInput(await readStdin());
+          if (!hook) return;
+          await sendDaemonRequest('hook', hook, socketPath);
+        } else {
+          await sendDaemonRequest('signal', { signal }, socketPath);
+        }
+      } catch (error: any) {
+        console.error(chalk.red(`\n❌ ${error.message}\n`));
         process.exit(1);
       }
+      break;
+    }
 
+    case 'shuffle': {
+      const mode = args[1];
+      if (mode !== 'on' && mode !== 'off') {
+        console.error(chalk.red('\n❌ Usage: tune-in shuffle <on|off>\n'));
+        process.exit(1);
+      }
       try {
-        await sendDaemonCommand(args[1]);
+        if (await sendDaemonRequest('shuffle', { enabled: mode === 'on' })) {
+          console.log(chalk.green(mode === 'on' ? '🔀 Shuffled' : '➡️  Back in order'));
+        } else {
+          console.error(chalk.yellow("⚠️  The daemon's player can't shuffle (only mpv can)"));
+          process.exit(1);
+        }
       } catch (error: any) {
         console.error(chalk.red(`\n❌ ${error.message}\n`));
         process.exit(1);
       }
       break;
+    }
 
     case 'status':
       try {
-        const status = await sendDaemonCommand('status');
-        const state = JSON.parse(status);
+        const state = await sendDaemonRequest('status', {});
         console.log(chalk.bold('\n🎵 Daemon Status:\n'));
         console.log('  Playing:', state.playing ? chalk.green('Yes') : chalk.dim('No'));
-        console.log('  Mode:', state.mode === 'native' ? chalk.cyan('Native (Spotify Desktop)') : chalk.cyan('Web API'));
+        console.log('  Mode:', chalk.cyan(isPlayerId(state.mode) ? createPlayer(state.mode, loadSettings()).label : state.mode));
         console.log('  Last update:', new Date(state.lastUpdate).toLocaleString());
+        if (state.override) console.log('  Override:', chalk.yellow('backing off after a manual play/pause'));
         console.log();
       } catch (error: any) {
         console.error(chalk.red(`\n❌ ${error.message}\n`));
@@ -192,6 +628,36 @@ async function main(): Promise<void> {
       }
       break;
 
+    case 'watch': {
+      // Stream state changes until interrupted
+      const json = args.includes('--json');
+      const settings = loadSettings();
+      const print = (state: DaemonStatus) => {
+        if (json) {
+          console.log(JSON.stringify(state));
+          return;
+        }
+        const time = new Date(state.lastUpdate).toLocaleTimeString();
+        const label = isPlayerId(state.mode) ? createPlayer(state.mode, settings).label : state.mode;
+        const override = state.override ? chalk.yellow(' manual override') : '';
+        console.log(`[${time}] ${state.playing ? '▶️  Playing' : '⏸️  Paused'} ${chalk.dim(`(${label})`)}${override}`);
+      };
+
+      try {
+        const client = await connectDaemon();
+        client.onEvent(event => print(event.state));
+        client.onClose(() => {
+          if (!json) console.log(chalk.dim('\nDaemon stopped'));
+          process.exit(0);
+        });
+        print(await client.request('subscribe', {}));
+      } catch (error: any) {
+        console.error(chalk.red(`\n❌ ${error.message}\n`));
+        process.exit(1);
+      }
+      break;
+    }
+
     default:
       await runCommand(args);
   }
@@ -0,0 +1,252 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * What a chunk of terminal input means for tune-in, once escape sequences,
+ * pastes and multi-byte characters have been sorted out
+ */
+export type KeyEvent =
+  // Enter: the message (or a selector choice) is sent
+  | { type: 'submit' }
+  // A line break inside the message: Shift/Alt+Enter, Ctrl+J, or "\" then Enter
+  | { type: 'newline' }
+  // Characters typed, counted in code points rather than bytes
+  | { type: 'text'; chars: number }
+  // A bracketed paste, newlines and all
+  | { type: 'paste'; chars: number }
+  // Anything else: arrows, backspace, function keys, Ctrl+<key>
+  | { type: 'key'; name: string };
+
+const ESC = '\x1b';
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+// CSI sequences that mean Shift+Enter: kitty keyboard protocol, then
+// xterm's modifyOtherKeys (any modifier)
+const SHIFT_ENTER = [/^\x1b\[13;\d+u$/, /^\x1b\[27;\d+;13~$/];
+
+const CSI_NAMES: Record<string, string> = {
+  A: 'up', B: 'down', C: 'right', D: 'left', H: 'home', F: 'end', Z: 'shift-tab',
+  '3~': 'delete', '5~': 'page-up', '6~': 'page-down',
+};
+
+function countChars(text: string): number {
+  let count = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    // C0 and C1 controls and DEL aren't characters anyone typed
+    if (code >= 0x20 && code !== 0x7f && (code < 0x80 || code > 0x9f)) count++;
+  }
+  return count;
+}
+
+/**
+ * How long to wait for the rest of an escape sequence before taking a lone
+ * ESC to be the Escape key
+ */
+export const ESCAPE_TIMEOUT_MS = 50;
+
+/**
+ * Turns raw terminal input into KeyEvents. Keeps state between chunks, so a
+ * UTF-8 character, escape sequence or paste split across reads is still
+ * seen whole. Pure: no timers, no I/O. The caller calls flush() once input
+ * has been quiet for ESCAPE_TIMEOUT_MS while `holding` is true.
+ */
+export class KeystrokeParser {
+  private decoder = new StringDecoder('utf8');
+  // An escape sequence cut off at the end of the last chunk
+  private pending = '';
+  // Inside a bracketed paste: how much has arrived so far
+  private pasting: number | null = null;
+  private lastChar = '';
+
+  /**
+   * The start of an escape sequence is held back, waiting for the rest
+   */
+  get holding(): boolean {
+    return this.pasting === null && this.pending !== '';
+  }
+
+  /**
+   * No more input came: what's held back was the Escape key, followed by
+   * whatever else was typed with it
+   */
+  flush(): KeyEvent[] {
+    if (!this.holding) return [];
+    const rest = this.pending.slice(1);
+    this.pending = '';
+    this.lastChar = '';
+    return [{ type: 'key', name: 'escape' }, ...this.feed(rest)];
+  }
+
+  feed(data: Buffer | string): KeyEvent[] {
+    const input = this.pending + (typeof data === 'string' ? data : this.decoder.write(data));
+    this.pending = '';
+    const events: KeyEvent[] = [];
+    let text = 0;
+    const flushText = () => {
+      if (text > 0) events.push({ type: 'text', chars: text });
+      text = 0;
+    };
+
+    let i = 0;
+    while (i < input.length) {
+      if (this.pasting !== null) {
+        const end = input.indexOf(PASTE_END, i);
+        // Hold back what might be the start of the end marker
+        const available = end === -1 ? this.safeLength(input, i) : end;
+        this.pasting += countChars(input.slice(i, available));
+        if (end === -1) {
+          this.pending = input.slice(available);
+          break;
+        }
+        events.push({ type: 'paste', chars: this.pasting });
+        this.pasting = null;
+        i = end + PASTE_END.length;
+        continue;
+      }
+
+      const char = input[i];
+      if (char === ESC) {
+        const sequence = this.readEscape(input, i);
+        if (sequence === null) {
+          // Incomplete; wait for the rest
+          this.pending = input.slice(i);
+          break;
+        }
+        flushText();
+        i += sequence.length;
+        if (sequence === PASTE_START) {
+          this.pasting = 0;
+        } else {
+          events.push(this.escapeEvent(sequence));
+        }
+        this.lastChar = '';
+        continue;
+      }
+
+      const code = input.codePointAt(i)!;
+      const width = code > 0xffff ? 2 : 1;
+      i += width;
+      if (code >= 0x20 && code !== 0x7f && (code < 0x80 || code > 0x9f)) {
+        text++;
+        this.lastChar = input.slice(i - width, i);
+        continue;
+      }
+
+      flushText();
+      if (char === '\r') {
+        // Claude Code reads "\" right before Enter as a line break
+        events.push({ type: this.lastChar === '\\' ? 'newline' : 'submit' });
+      } else if (char === '\n') {
+        events.push({ type: 'newline' });
+      } else if (char === '\x7f' || char === '\b') {
+        events.push({ type: 'key', name: 'backspace' });
+      } else if (char === '\t') {
+        events.push({ type: 'key', name: 'tab' });
+      } else {
+        events.push({ type: 'key', name: `ctrl-${String.fromCharCode(code + 0x60)}` });
+      }
+      this.lastChar = '';
+    }
+
+    flushText();
+    return events;
+  }
+
+  // How much of input[from..] can be consumed without splitting a possible
+  // paste end marker
+  private safeLength(input: string, from: number): number {
+    for (let keep = Math.min(PASTE_END.length - 1, input.length - from); keep > 0; keep--) {
+      if (PASTE_END.startsWith(input.slice(input.length - keep))) return input.length - keep;
+    }
+    return input.length;
+  }
+
+  /**
+   * The escape sequence starting at input[start], or null if it isn't
+   * complete yet. That includes a lone ESC at the very end: it may be the
+   * Escape key, or a sequence split across reads (see flush).
+   */
+  private readEscape(input: string, start: number): string | null {
+    const next = input[start + 1];
+    if (next === undefined) return null;
+    if (next === '[') {
+      // CSI: parameters 0x30-0x3f, intermediates 0x20-0x2f, final 0x40-0x7e
+      let end = start + 2;
+      while (end < input.length && input.charCodeAt(end) >= 0x20 && input.charCodeAt(end) <= 0x3f) end++;
+      if (end >= input.length) return null;
+      const final = input.charCodeAt(end);
+      return input.slice(start, end + (final >= 0x40 && final <= 0x7e ? 1 : 0));
+    }
+    if (next === 'O') {
+      // SS3: F1-F4 and arrows in application mode
+      return start + 2 < input.length ? input.slice(start, start + 3) : null;
+    }
+    // Alt+<key>, including Alt+Enter
+    return input.slice(start, start + 2);
+  }
+
+  private escapeEvent(sequence: string): KeyEvent {
+    if (sequence === ESC) return { type: 'key', name: 'escape' };
+    if (sequence === `${ESC}\r` || sequence === `${ESC}\n`) return { type: 'newline' };
+    if (SHIFT_ENTER.some(pattern => pattern.test(sequence))) return { type: 'newline' };
+    if (sequence.startsWith(`${ESC}[`)) {
+      // Drop any modifier parameters: "\x1b[1;5A" is Ctrl+Up
+      const key = sequence.slice(2).replace(/^[\d;]*(?=[A-Z])/, '').replace(/;\d+(?=~$)/, '');
+      return { type: 'key', name: CSI_NAMES[key] ?? 'unknown' };
+    }
+    if (sequence.startsWith(`${ESC}O`)) {
+      return { type: 'key', name: CSI_NAMES[sequence[2]] ?? 'function' };
+    }
+    return { type: 'key', name: `alt-${sequence.slice(1)}` };
+  }
+}
+
+/**
+ * What the wrapper should do about a key event
+ */
+export type TypingAction =
+  // Claude is starting on a message: play right away
+  | 'submit'
+  // You've typed enough for music to start
+  | 'start-typing'
+  // Still typing: push back the idle pause
+  | 'keep-typing'
+  | null;
+
+/**
+ * Decides when typing counts as composing a message. Nothing counts until
+ * the first message has been sent (that's Claude Code's onboarding), and
+ * music only starts once `playThreshold` characters are in.
+ */
+export class TypingTracker {
+  private firstMessageSent = false;
+  private chars = 0;
+
+  constructor(private playThreshold: number) {}
+
+  handle(event: KeyEvent): TypingAction {
+    if (event.type === 'submit') {
+      this.firstMessageSent = true;
+      this.chars = 0;
+      return 'submit';
+    }
+    if (!this.firstMessageSent) return null;
+    // Line breaks and pastes are part of writing the message; other keys
+    // (arrows, backspace) are too, but don't add to it
+    const added = event.type === 'text' || event.type === 'paste' ? event.chars : event.type === 'newline' ? 1 : 0;
+    if (added === 0) return null;
+
+    const before = this.chars;
+    this.chars += added;
+    if (before < this.playThreshold && this.chars >= this.playThreshold) return 'start-typing';
+    return this.chars >= this.playThreshold ? 'keep-typing' : null;
+  }
+
+  /**
+   * Typing stopped long enough for music to pause; start counting afresh
+   */
+  reset(): void {
+    this.chars = 0;
+  }
+}
@@ -0,0 +1,194 @@
+import * as net from 'net';
+import type { MusicPlayer, PlayerCapabilities, PlaybackState, Track } from './player';
+
+const TIMEOUT_MS = 3000;
+
+export interface MpdOptions {
+  host: string;
+  port: number;
+  password?: string;
+}
+
+export class MpdError extends Error {
+  constructor(message: string, public command?: string) {
+    super(message);
+    this.name = 'MpdError';
+  }
+}
+
+function quoteArg(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Parse "key: value" lines of a single command response
+ */
+export function parseMpdResponse(lines: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of lines) {
+    const sep = line.indexOf(': ');
+    if (sep !== -1) {
+      result[line.slice(0, sep)] = line.slice(sep + 2);
+    }
+  }
+  return result;
+}
+
+/**
+ * Open a connection, authenticate if needed, run each command in order and
+ * return one parsed response per command. Stops at the first ACK.
+ */
+export function sendMpdCommands(options: MpdOptions, commands: string[]): Promise<Record<string, string>[]> {
+  const queue = options.password ? [`password ${quoteArg(options.password)}`, ...commands] : [...commands];
+  const skip = queue.length - commands.length;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: options.host, port: options.port });
+    const responses: Record<string, string>[] = [];
+    let greeted = false;
+    let buffer = '';
+    let current: string[] = [];
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    const next = () => {
+      socket.write(queue[responses.length] + '\n');
+    };
+
+    socket.setTimeout(TIMEOUT_MS, () => fail(new MpdError(`Timed out talking to MPD at ${options.host}:${options.port}`)));
+    socket.on('error', (error) => fail(new MpdError(`Could not reach MPD: ${error.message}`)));
+    // Hung up before the last OK (or before the greeting): nothing else will
+    // settle the promise once the socket is gone
+    socket.on('close', () => {
+      if (!greeted || responses.length < queue.length) {
+        reject(new MpdError('MPD closed the connection before replying', queue[responses.length]));
+      }
+    });
+
+    socket.on('data', (data: Buffer) => {
+      buffer += data.toString('utf-8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+
+        if (!greeted) {
+          if (!line.startsWith('OK MPD')) {
+            fail(new MpdError(`Unexpected MPD greeting: ${line}`));
+            return;
+          }
+          greeted = true;
+          if (queue.length === 0) {
+            socket.end();
+            resolve([]);
+            return;
+          }
+          next();
+          continue;
+        }
+
+        if (line.startsWith('ACK ')) {
+          fail(new MpdError(line.slice(4), queue[responses.length]));
+          return;
+        }
+
+        if (line === 'OK') {
+          responses.push(parseMpdResponse(current));
+          current = [];
+          if (responses.length === queue.length) {
+            socket.end('close\n');
+            resolve(responses.slice(skip));
+            return;
+          }
+          next();
+          continue;
+        }
+
+        current.push(line);
+      }
+    });
+  });
+}
+
+/**
+ * Music Player Daemon, controlled over its text protocol
+ */
+export class MpdPlayer implements MusicPlayer {
+  readonly id = 'mpd';
+  readonly capabilities: PlayerCapabilities = {
+    state: true,
+    nowPlaying: true,
+    volume: true,
+    contexts: false,
+  };
+
+  constructor(private options: MpdOptions) {}
+
+  get label(): string {
+    return `MPD (${this.options.host}:${this.options.port})`;
+  }
+
+  private async run(...commands: string[]): Promise<Record<string, string>[] | null> {
+    try {
+      return await sendMpdCommands(this.options, commands);
+    } catch {
+      return null;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.run('ping')) !== null;
+  }
+
+  async play(): Promise<boolean> {
+    const status = await this.run('status');
+    if (!status) return false;
+    // "pause 0" only resumes; a stopped player needs "play"
+    const command = status[0].state === 'stop' ? 'play' : 'pause 0';
+    return (await this.run(command)) !== null;
+  }
+
+  async pause(): Promise<boolean> {
+    return (await this.run('pause 1')) !== null;
+  }
+
+  async getState(): Promise<PlaybackState> {
+    const status = await this.run('status');
+    if (!status) return 'unknown';
+    if (status[0].state === 'play') return 'playing';
+    if (status[0].state === 'pause' || status[0].state === 'stop') return 'paused';
+    return 'unknown';
+  }
+
+  async getNowPlaying(): Promise<Track | null> {
+    const responses = await this.run('currentsong', 'status');
+    if (!responses || !responses[0].file) return null;
+    const [{ Title, Artist, Album, Name, file, duration, Time }, { elapsed }] = responses;
+    // Seconds, with fractions; older servers only send Time, whole seconds
+    const ms = (value: string | undefined) => (value && Number.isFinite(parseFloat(value)) ? Math.round(parseFloat(value) * 1000) : undefined);
+    // Streams often only have Name; local files may lack tags entirely
+    return {
+      name: Title || Name || file,
+      artist: Artist || '',
+      album: Album || undefined,
+      durationMs: ms(duration ?? Time),
+      progressMs: ms(elapsed),
+      uri: file,
+    };
+  }
+
+  async getVolume(): Promise<number | null> {
+    const status = await this.run('status');
+    const volume = status ? parseInt(status[0].volume, 10) : NaN;
+    // MPD reports -1 when there is no mixer
+    return isNaN(volume) || volume < 0 ? null : volume;
+  }
+
+  async setVolume(volume: number): Promise<boolean> {
+    const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+    return (await this.run(`setvol ${clamped}`)) !== null;
+  }
+}
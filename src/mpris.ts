@@ -0,0 +1,246 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { MusicPlayer, PlayerCapabilities, PlaybackState, Track } from './player';
+
+const execFileAsync = promisify(execFile);
+
+const MPRIS_PREFIX = 'org.mpris.MediaPlayer2.';
+const MPRIS_PATH = '/org/mpris/MediaPlayer2';
+const PLAYER_IFACE = 'org.mpris.MediaPlayer2.Player';
+
+export interface MprisOptions {
+  // Player names in order of preference, e.g. ['spotifyd', 'ncspot', 'vlc']
+  players?: string[];
+  // D-Bus address to talk to instead of the session bus (e.g. a mock bus)
+  busAddress?: string;
+}
+
+function dbusSend(options: MprisOptions, dest: string, objectPath: string, method: string, ...args: string[]): Promise<string> {
+  // Bus names come from whatever registered on the bus: no shell in between
+  const env = options.busAddress ? { ...process.env, DBUS_SESSION_BUS_ADDRESS: options.busAddress } : process.env;
+  return execFileAsync('dbus-send', ['--session', '--print-reply', `--dest=${dest}`, objectPath, method, ...args], { env })
+    .then(({ stdout }) => stdout);
+}
+
+function getProperty(options: MprisOptions, busName: string, property: string): Promise<string> {
+  return dbusSend(
+    options, busName, MPRIS_PATH, 'org.freedesktop.DBus.Properties.Get',
+    `string:${PLAYER_IFACE}`, `string:${property}`
+  );
+}
+
+/**
+ * List the MPRIS short names (the part after org.mpris.MediaPlayer2.) of every
+ * player currently on the bus
+ */
+export async function listMprisPlayers(options: MprisOptions = {}): Promise<string[]> {
+  try {
+    const stdout = await dbusSend(
+      options, 'org.freedesktop.DBus', '/org/freedesktop/DBus', 'org.freedesktop.DBus.ListNames'
+    );
+    const names: string[] = [];
+    const pattern = /string "org\.mpris\.MediaPlayer2\.([^"]+)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(stdout)) !== null) {
+      names.push(match[1]);
+    }
+    return names;
+  } catch {
+    return [];
+  }
+}
+
+// Instances register as e.g. "vlc.instance1234" or "firefox.instance_1_23",
+// so "vlc" matches both "vlc" and "vlc.<anything>"
+function matchesName(busName: string, wanted: string): boolean {
+  return busName === wanted || busName.startsWith(`${wanted}.`);
+}
+
+export async function getMprisPlaybackStatus(busName: string, options: MprisOptions = {}): Promise<PlaybackState> {
+  try {
+    const stdout = await getProperty(options, MPRIS_PREFIX + busName, 'PlaybackStatus');
+    const match = stdout.match(/string "(\w+)"/);
+    if (match?.[1] === 'Playing') return 'playing';
+    if (match?.[1] === 'Paused' || match?.[1] === 'Stopped') return 'paused';
+  } catch {
+    // Ignore errors
+  }
+  return 'unknown';
+}
+
+/**
+ * Pick the player to control: the first running one from the preference list,
+ * otherwise whichever is currently playing, otherwise the first on the bus
+ */
+export async function findMprisPlayer(options: MprisOptions = {}): Promise<string | null> {
+  const running = await listMprisPlayers(options);
+  if (running.length === 0) return null;
+
+  if (options.players) {
+    for (const wanted of options.players) {
+      const found = running.find(name => matchesName(name, wanted));
+      if (found) return found;
+    }
+    // An explicit list means "only these"
+    return null;
+  }
+
+  for (const name of running) {
+    if (await getMprisPlaybackStatus(name, options) === 'playing') {
+      return name;
+    }
+  }
+  return running[0];
+}
+
+// A string, object path or number value on one line of dbus-send output
+const VALUE_LINE = /^\s*(?:variant\s+)?(?:(?:string|object path) "(.*)"|(?:u?int(?:16|32|64)|double|byte)\s+(-?[\d.e+-]+))\s*$/;
+
+/**
+ * Parse the Metadata a{sv} dict printed by dbus-send into key → values.
+ * Numbers (e.g. mpris:length) come back as strings too.
+ */
+export function parseMprisMetadata(stdout: string): Record<string, string[]> {
+  const metadata: Record<string, string[]> = {};
+  for (const entry of stdout.split('dict entry(').slice(1)) {
+    const values: string[] = [];
+    for (const line of entry.split('\n')) {
+      const match = line.match(VALUE_LINE);
+      if (match) values.push(match[1] ?? match[2]);
+    }
+    const [key, ...rest] = values;
+    if (key) metadata[key] = rest;
+  }
+  return metadata;
+}
+
+// MPRIS times are in microseconds
+function microsToMs(value: string | undefined): number | undefined {
+  const micros = Number(value);
+  return value !== undefined && Number.isFinite(micros) && micros >= 0 ? Math.round(micros / 1000) : undefined;
+}
+
+export async function getMprisTrack(busName: string, options: MprisOptions = {}): Promise<Track | null> {
+  try {
+    const stdout = await getProperty(options, MPRIS_PREFIX + busName, 'Metadata');
+    const metadata = parseMprisMetadata(stdout);
+    const name = metadata['xesam:title']?.[0];
+    if (name) {
+      // Not every player implements Position
+      const position = await getProperty(options, MPRIS_PREFIX + busName, 'Position')
+        .then(out => out.match(/int64\s+(-?\d+)/)?.[1])
+        .catch(() => undefined);
+      return {
+        name,
+        artist: (metadata['xesam:artist'] || []).join(', '),
+        album: metadata['xesam:album']?.[0] || undefined,
+        durationMs: microsToMs(metadata['mpris:length']?.[0]),
+        progressMs: microsToMs(position),
+        // Spotify exposes its URI as the track id
+        uri: metadata['xesam:url']?.[0] || spotifyTrackId(metadata['mpris:trackid']?.[0]) || undefined,
+        artworkUrl: metadata['mpris:artUrl']?.[0] || undefined,
+      };
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null;
+}
+
+// Spotify Desktop: "/com/spotify/track/<id>"; spotifyd: "spotify:track:<id>"
+function spotifyTrackId(trackId: string | undefined): string | undefined {
+  const match = trackId?.match(/^(?:\/com\/spotify\/track\/|spotify:track:)([A-Za-z0-9]+)$/);
+  return match ? `spotify:track:${match[1]}` : undefined;
+}
+
+/**
+ * Any MPRIS-capable player on Linux: spotifyd, ncspot, VLC, Firefox, Rhythmbox...
+ */
+export class MprisPlayer implements MusicPlayer {
+  readonly id = 'mpris';
+  readonly capabilities: PlayerCapabilities = {
+    state: true,
+    nowPlaying: true,
+    volume: true,
+    contexts: false,
+  };
+  private busName: string | null = null;
+
+  constructor(private options: MprisOptions = {}) {}
+
+  get label(): string {
+    return this.busName ? `MPRIS (${this.busName})` : 'MPRIS';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (process.platform === 'darwin' || process.platform === 'win32') return false;
+    this.busName = await findMprisPlayer(this.options);
+    return this.busName !== null;
+  }
+
+  // Re-resolve on every call if the player we had went away
+  private async target(): Promise<string | null> {
+    if (this.busName && (await listMprisPlayers(this.options)).includes(this.busName)) {
+      return this.busName;
+    }
+    this.busName = await findMprisPlayer(this.options);
+    return this.busName;
+  }
+
+  private async call(method: string): Promise<boolean> {
+    const busName = await this.target();
+    if (!busName) return false;
+    try {
+      await dbusSend(this.options, MPRIS_PREFIX + busName, MPRIS_PATH, `${PLAYER_IFACE}.${method}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  play(): Promise<boolean> {
+    return this.call('Play');
+  }
+
+  pause(): Promise<boolean> {
+    return this.call('Pause');
+  }
+
+  async getState(): Promise<PlaybackState> {
+    const busName = await this.target();
+    return busName ? getMprisPlaybackStatus(busName, this.options) : 'unknown';
+  }
+
+  async getNowPlaying(): Promise<Track | null> {
+    const busName = await this.target();
+    return busName ? getMprisTrack(busName, this.options) : null;
+  }
+
+  async getVolume(): Promise<number | null> {
+    const busName = await this.target();
+    if (!busName) return null;
+    try {
+      const stdout = await getProperty(this.options, MPRIS_PREFIX + busName, 'Volume');
+      const match = stdout.match(/double\s+([\d.]+)/);
+      if (match) return Math.round(parseFloat(match[1]) * 100);
+    } catch {
+      // Ignore errors
+    }
+    return null;
+  }
+
+  async setVolume(volume: number): Promise<boolean> {
+    const busName = await this.target();
+    if (!busName) return false;
+    const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+    try {
+      await dbusSend(
+        this.options, MPRIS_PREFIX + busName, MPRIS_PATH, 'org.freedesktop.DBus.Properties.Set',
+        `string:${PLAYER_IFACE}`, 'string:Volume', `variant:double:${clamped / 100}`
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
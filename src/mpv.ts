@@ -0,0 +1,225 @@
+import { spawn, execSync, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { MusicPlayer, PlayerCapabilities, PlaybackState, Track } from './player';
+
+const STARTUP_TIMEOUT_MS = 5000;
+const REQUEST_TIMEOUT_MS = 3000;
+
+export interface MpvOptions {
+  // Folder or M3U playlist to play
+  source?: string;
+  shuffle?: boolean;
+}
+
+export function isMpvInstalled(): boolean {
+  try {
+    execSync(process.platform === 'win32' ? 'where mpv' : 'command -v mpv', { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let requestCounter = 0;
+
+/**
+ * Send one command over mpv's JSON IPC socket and resolve with its `data`.
+ * Event lines mpv pushes on the same connection are skipped.
+ */
+export function mpvRequest(socketPath: string, command: unknown[]): Promise<any> {
+  const requestId = ++requestCounter;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    let buffer = '';
+
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error('Timed out talking to mpv'));
+    });
+    socket.on('error', reject);
+
+    socket.on('connect', () => {
+      socket.write(JSON.stringify({ command, request_id: requestId }) + '\n');
+    });
+
+    socket.on('data', (data: Buffer) => {
+      buffer += data.toString('utf-8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+
+        let message: any;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (message.request_id !== requestId) continue;
+
+        socket.end();
+        if (message.error === 'success') {
+          resolve(message.data);
+        } else {
+          reject(new Error(`mpv: ${message.error}`));
+        }
+        return;
+      }
+    });
+  });
+}
+
+/**
+ * Local files played by an mpv instance we launch and control over JSON IPC.
+ * Used as the fallback when no streaming player is around.
+ */
+export class MpvPlayer implements MusicPlayer {
+  readonly id = 'mpv';
+  readonly capabilities: PlayerCapabilities = {
+    state: true,
+    nowPlaying: true,
+    volume: true,
+    contexts: false,
+  };
+  private socketPath = path.join(os.tmpdir(), `tune-in-mpv-${process.pid}.sock`);
+  private process?: ChildProcess;
+
+  constructor(private options: MpvOptions) {}
+
+  get label(): string {
+    return this.options.source ? `mpv (${path.basename(this.options.source)})` : 'mpv';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.options.source && fs.existsSync(this.options.source) && isMpvInstalled();
+  }
+
+  private get running(): boolean {
+    return !!this.process && this.process.exitCode === null && this.process.signalCode === null;
+  }
+
+  private async launch(): Promise<boolean> {
+    if (!this.options.source) return false;
+
+    const args = [
+      `--input-ipc-server=${this.socketPath}`,
+      '--no-video',
+      '--no-terminal',
+      '--idle=yes',
+      '--loop-playlist=inf',
+    ];
+    if (this.options.shuffle) args.push('--shuffle');
+    args.push(this.options.source);
+
+    this.process = spawn('mpv', args, { stdio: 'ignore' });
+    this.process.on('error', () => {});
+
+    // Wait for the IPC socket to accept connections
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline && this.running) {
+      try {
+        await mpvRequest(this.socketPath, ['get_property', 'pid']);
+        return true;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+    return false;
+  }
+
+  private async request(command: unknown[]): Promise<any> {
+    if (!this.running) return undefined;
+    try {
+      return await mpvRequest(this.socketPath, command);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async play(): Promise<boolean> {
+    if (!this.running) {
+      return this.launch();
+    }
+    return (await this.request(['set_property', 'pause', false])) !== undefined;
+  }
+
+  async pause(): Promise<boolean> {
+    return (await this.request(['set_property', 'pause', true])) !== undefined;
+  }
+
+  async getState(): Promise<PlaybackState> {
+    if (!this.running) return 'paused';
+    const paused = await this.request(['get_property', 'pause']);
+    if (paused === true) return 'paused';
+    if (paused === false) return 'playing';
+    return 'unknown';
+  }
+
+  async getNowPlaying(): Promise<Track | null> {
+    const title = await this.request(['get_property', 'media-title']);
+    if (!title) return null;
+    const metadata = (await this.request(['get_property', 'metadata'])) || {};
+    const file = await this.request(['get_property', 'path']);
+    const duration = await this.request(['get_property', 'duration']);
+    const position = await this.request(['get_property', 'time-pos']);
+    // Tag case depends on the file format (ID3 vs Vorbis comments)
+    const tag = (name: string) => metadata[name] || metadata[name.toUpperCase()] || metadata[name[0].toUpperCase() + name.slice(1)];
+    const ms = (seconds: unknown) => (typeof seconds === 'number' ? Math.round(seconds * 1000) : undefined);
+    return {
+      name: tag('title') || title,
+      artist: tag('artist') || '',
+      album: tag('album') || undefined,
+      durationMs: ms(duration),
+      progressMs: ms(position),
+      // Relative to our cwd, which mpv inherited; streams are URLs already
+      uri: typeof file !== 'string' ? undefined : /^[a-z]+:\/\//i.test(file) ? file : path.resolve(file),
+    };
+  }
+
+  async getVolume(): Promise<number | null> {
+    const volume = await this.request(['get_property', 'volume']);
+    return typeof volume === 'number' ? Math.round(volume) : null;
+  }
+
+  async setVolume(volume: number): Promise<boolean> {
+    const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+    return (await this.request(['set_property', 'volume', clamped])) !== undefined;
+  }
+
+  /**
+   * Play a file or stream now; the playlist carries on after it
+   */
+  async playUri(uri: string): Promise<boolean> {
+    if (!this.running && !(await this.launch())) return false;
+    if ((await this.request(['loadfile', uri, 'insert-next'])) === undefined) return false;
+    if ((await this.request(['playlist-next', 'force'])) === undefined) return false;
+    return (await this.request(['set_property', 'pause', false])) !== undefined;
+  }
+
+  /**
+   * Reshuffle the playlist and jump to its new first track, or put it back
+   * in its original order
+   */
+  async setShuffle(enabled: boolean): Promise<boolean> {
+    if (!enabled) return (await this.request(['playlist-unshuffle'])) !== undefined;
+    if ((await this.request(['playlist-shuffle'])) === undefined) return false;
+    return (await this.request(['set_property', 'playlist-pos', 0])) !== undefined;
+  }
+
+  detach(): string | null {
+    if (!this.running) return null;
+    this.process!.unref();
+    return `mpv keeps playing; stop it with: kill ${this.process!.pid}`;
+  }
+
+  async dispose(): Promise<void> {
+    if (!this.running) return;
+    await this.request(['quit']);
+    this.process?.kill();
+    try { fs.unlinkSync(this.socketPath); } catch {}
+  }
+}
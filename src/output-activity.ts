@@ -0,0 +1,153 @@
+import type { Settings } from './settings';
+
+export type OutputActivity = 'working' | 'waiting';
+
+export const OUTPUT_DETECT_MODES = ['off', 'auto', 'on'] as const;
+export type OutputDetectMode = typeof OUTPUT_DETECT_MODES[number];
+
+export interface OutputActivityOptions {
+  // Seen while Claude works, e.g. its spinner line and "esc to interrupt"
+  workingPatterns: RegExp[];
+  // A prompt that needs you, e.g. a permission dialog
+  waitingPatterns: RegExp[];
+  // Claude counts as done once the working patterns haven't shown up for this long
+  quietMs: number;
+  // Output this soon after a waiting pattern is the rest of the same screen
+  // (the lines under a prompt or a banner), not work starting again
+  graceMs?: number;
+}
+
+/**
+ * Regexes from settings; matched case-insensitively against the output with
+ * colors and cursor movement stripped
+ */
+export function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.map(pattern => new RegExp(pattern, 'iu'));
+}
+
+export function outputActivityOptionsFromSettings(settings: Settings): OutputActivityOptions {
+  return {
+    workingPatterns: compilePatterns(settings.output.workingPatterns),
+    waitingPatterns: compilePatterns(settings.output.waitingPatterns),
+    quietMs: settings.output.quietMs,
+  };
+}
+
+// A dev server prints its URLs right after "ready in"
+const COMMAND_GRACE_MS = 500;
+
+/**
+ * For `tune-in --pty <command>`: any output at all means the command is
+ * busy; a prompt, a settled watcher or idleMs of silence means it isn't
+ */
+export function commandActivityOptionsFromSettings(settings: Settings): OutputActivityOptions {
+  return {
+    workingPatterns: [/\S/u],
+    waitingPatterns: compilePatterns([...settings.command.promptPatterns, ...settings.command.settlePatterns]),
+    quietMs: settings.command.idleMs > 0 ? settings.command.idleMs : Infinity,
+    graceMs: COMMAND_GRACE_MS,
+  };
+}
+
+// Colors and styles (SGR) vanish; other CSI and OSC sequences, mostly
+// cursor moves, become a space so words on either side don't run together
+const SGR = /\x1b\[[0-9;:]*m/g;
+const ESCAPES = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-_]/g;
+
+export function stripTerminalOutput(data: string): string {
+  return data.replace(SGR, '').replace(ESCAPES, ' ').replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+// Enough of the previous chunk to catch a pattern split across two
+const TAIL_LENGTH = 200;
+
+// An escape sequence cut off at the end of a chunk: stripped once the rest
+// arrives, rather than leaving its parameters in the text
+const INCOMPLETE_ESCAPE = /\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*)?$/;
+
+// Where the last match of any of the patterns ends, or -1
+function matchEnd(patterns: RegExp[], text: string): number {
+  let end = -1;
+  for (const pattern of patterns) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    for (const match of text.matchAll(global)) {
+      end = Math.max(end, match.index! + match[0].length);
+      // An empty match would never advance
+      if (match[0].length === 0) break;
+    }
+  }
+  return end;
+}
+
+/**
+ * Works out from claude's terminal output whether it's working or waiting
+ * on you, for when hooks don't fire (an older Claude Code, a managed policy,
+ * or --settings replacing ours). Pure: the caller passes the time in, and
+ * calls tick() now and then so a quiet spinner is noticed.
+ */
+export class OutputActivityDetector {
+  private state: OutputActivity = 'waiting';
+  private lastWorking = 0;
+  private tail = '';
+  private partial = '';
+  private waitingAt = -Infinity;
+
+  constructor(private options: OutputActivityOptions) {}
+
+  get activity(): OutputActivity {
+    return this.state;
+  }
+
+  /**
+   * Count as working from `now`, before any output, e.g. once music is on
+   */
+  start(now: number): void {
+    this.state = 'working';
+    this.lastWorking = now;
+  }
+
+  /**
+   * The new activity, when this output changes it
+   */
+  feed(data: string, now: number): OutputActivity | null {
+    const input = this.partial + data;
+    const incomplete = INCOMPLETE_ESCAPE.exec(input);
+    // A runaway OSC without its terminator isn't held on to forever
+    this.partial = incomplete && incomplete[0].length <= TAIL_LENGTH ? incomplete[0] : '';
+
+    const text = this.tail + stripTerminalOutput(input.slice(0, input.length - this.partial.length));
+    this.tail = text.slice(-TAIL_LENGTH);
+
+    // A prompt wins over a spinner redrawn in the same frame
+    const waiting = matchEnd(this.options.waitingPatterns, text);
+    if (waiting !== -1) {
+      // Don't match the same text again on the next chunk
+      this.tail = text.slice(waiting).slice(-TAIL_LENGTH);
+      this.lastWorking = 0;
+      this.waitingAt = now;
+      return this.moveTo('waiting');
+    }
+    const working = matchEnd(this.options.workingPatterns, text);
+    if (working !== -1) {
+      this.tail = text.slice(working).slice(-TAIL_LENGTH);
+      // Still the screen that put up the prompt
+      if (now - this.waitingAt < (this.options.graceMs ?? 0)) return null;
+      this.lastWorking = now;
+      return this.moveTo('working');
+    }
+    return this.tick(now);
+  }
+
+  tick(now: number): OutputActivity | null {
+    if (this.state === 'working' && now - this.lastWorking >= this.options.quietMs) {
+      return this.moveTo('waiting');
+    }
+    return null;
+  }
+
+  private moveTo(state: OutputActivity): OutputActivity | null {
+    if (state === this.state) return null;
+    this.state = state;
+    return state;
+  }
+}
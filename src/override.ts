@@ -0,0 +1,165 @@
+import type { PlaybackState } from './player';
+import type { PlaybackController } from './transitions';
+import type { Settings } from './settings';
+
+export interface OverrideOptions {
+  // How often to check the player; 0 turns detection off
+  pollMs: number;
+  // How long to back off after a manual change; null: until the session ends
+  backoffMs: number | null;
+}
+
+export function overrideOptionsFromSettings(settings: Settings): OverrideOptions {
+  return { ...settings.override };
+}
+
+export interface OverrideState {
+  // What the player was doing after tune-in last touched it
+  expected: PlaybackState | null;
+  // When the user took over; null when they haven't
+  since: number | null;
+}
+
+/**
+ * Where the watcher keeps its state. In memory by default; shared between
+ * sessions when several wrappers run, so one session's transitions aren't
+ * mistaken for the user's by another.
+ */
+export interface OverrideStore {
+  get(): OverrideState;
+  set(state: OverrideState): void;
+}
+
+function memoryOverrideStore(): OverrideStore {
+  let state: OverrideState = { expected: null, since: null };
+  return {
+    get: () => state,
+    set: (value) => { state = value; },
+  };
+}
+
+// A mismatch has to survive this many polls in a row before it counts, so a
+// transition another session is in the middle of isn't taken for the user
+const CONFIRM_POLLS = 2;
+// The Web API can go on reporting the old state for a moment after a
+// transition; mismatches that soon after one don't count
+const SETTLE_MS = 3000;
+
+/**
+ * Notices when you play or pause the player yourself and makes tune-in back
+ * off instead of fighting you: transitions are skipped until the back-off
+ * runs out, after which tune-in picks up from whatever the player is doing.
+ */
+export class OverrideWatcher {
+  private timer?: NodeJS.Timeout;
+  private mismatches = 0;
+  private busy = 0;
+  private polling = false;
+  private settledAt = 0;
+
+  constructor(
+    private controller: PlaybackController,
+    private options: OverrideOptions,
+    private store: OverrideStore = memoryOverrideStore(),
+    // Called when an override starts or ends, with what the player is doing
+    private onChange?: (override: boolean, actual: PlaybackState) => void
+  ) {}
+
+  get active(): boolean {
+    const { since } = this.store.get();
+    if (since === null) return false;
+    return this.options.backoffMs === null || Date.now() - since < this.options.backoffMs;
+  }
+
+  start(): void {
+    if (this.options.pollMs <= 0 || !this.controller.player.capabilities.state || this.timer) return;
+    this.timer = setInterval(async () => {
+      // The Web API can take longer to answer than the poll interval
+      if (this.polling) return;
+      this.polling = true;
+      try {
+        await this.poll();
+      } finally {
+        this.polling = false;
+      }
+    }, this.options.pollMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Forget any override, e.g. when a new session starts
+   */
+  reset(): void {
+    this.store.set({ expected: null, since: null });
+    this.mismatches = 0;
+  }
+
+  /**
+   * Run a transition unless the user has taken over. Resolves false when
+   * it was skipped.
+   */
+  async run(transition: () => Promise<boolean>): Promise<boolean> {
+    if (this.active) return false;
+    this.busy++;
+    let succeeded = false;
+    try {
+      succeeded = await transition();
+      return succeeded;
+    } finally {
+      await this.record(succeeded);
+      this.busy--;
+    }
+  }
+
+  private actualState(): Promise<PlaybackState> {
+    return this.controller.player.getState().catch((): PlaybackState => 'unknown');
+  }
+
+  /**
+   * Remember what the player should now be doing. After a transition that
+   * went through, that's what the controller asked for: the Web API can
+   * still report the old state for a while, which would look like the user
+   * undoing it. After one that failed, ask the player.
+   */
+  private async record(succeeded: boolean): Promise<void> {
+    if (!this.controller.player.capabilities.state) return;
+    const expected = succeeded ? this.controller.intendedState : await this.actualState();
+    if (expected === 'unknown') return;
+    this.store.set({ ...this.store.get(), expected });
+    this.mismatches = 0;
+    this.settledAt = Date.now() + SETTLE_MS;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.busy > 0) return;
+
+    const state = this.store.get();
+    if (state.since !== null && !this.active) {
+      // Back-off is over: take the player as the user left it
+      const actual = await this.actualState();
+      this.store.set({ expected: actual === 'unknown' ? null : actual, since: null });
+      if (actual !== 'unknown') this.controller.adopt(actual);
+      this.onChange?.(false, actual);
+      return;
+    }
+    if (this.active || state.expected === null) return;
+
+    const actual = await this.actualState();
+    // A transition may have started while we were asking
+    if (this.busy > 0 || actual === 'unknown') return;
+    if (actual === this.store.get().expected || Date.now() < this.settledAt) {
+      this.mismatches = 0;
+      return;
+    }
+
+    if (++this.mismatches < CONFIRM_POLLS) return;
+    this.mismatches = 0;
+    this.store.set({ expected: actual, since: Date.now() });
+    this.controller.adopt(actual);
+    this.onChange?.(true, actual);
+  }
+}
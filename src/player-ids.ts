@@ -0,0 +1,9 @@
+// Apart from player.ts so settings can check the "player" setting without
+// loading every backend (and axios) along with it
+
+export const PLAYER_IDS = ['native', 'mpris', 'mpd', 'web-api', 'mpv', 'fake'] as const;
+export type PlayerId = typeof PLAYER_IDS[number];
+
+export function isPlayerId(value: string): value is PlayerId {
+  return (PLAYER_IDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,303 @@
+import {
+  isSpotifyRunning,
+  openSpotify,
+  playSpotifyNative,
+  pauseSpotifyNative,
+  getSpotifyState,
+  getCurrentTrack,
+  getSpotifyVolume,
+  setSpotifyVolume,
+} from './spotify-native';
+import { SpotifyClient, SpotifyApiError, createSpotifyClient } from './spotify';
+import { loadContextPositions, saveContextPosition } from './playlists';
+import { MprisPlayer } from './mpris';
+import { MpdPlayer } from './mpd';
+import { MpvPlayer } from './mpv';
+import { FakePlayer } from './fake-player';
+import { PLAYER_IDS } from './player-ids';
+import type { PlayerId } from './player-ids';
+import type { Settings } from './settings';
+
+export { PLAYER_IDS, isPlayerId } from './player-ids';
+export type { PlayerId } from './player-ids';
+
+// Only used when asked for by name
+const EXPLICIT_ONLY: PlayerId[] = ['fake'];
+
+export type PlaybackState = 'playing' | 'paused' | 'unknown';
+
+export interface Track {
+  name: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  // How far into the track playback is, when it was read
+  progressMs?: number;
+  // Where the track can be played again: a Spotify URI, a URL or a file path
+  uri?: string;
+  artworkUrl?: string;
+}
+
+/**
+ * What a backend can actually do. Callers check these before relying on
+ * state, now-playing or volume, instead of checking the platform themselves.
+ */
+export interface PlayerCapabilities {
+  state: boolean;
+  nowPlaying: boolean;
+  volume: boolean;
+  // Can switch to a playlist/album by URI (see playContext)
+  contexts: boolean;
+}
+
+/**
+ * A music backend. play/pause resolve to false (rather than throwing) when the
+ * player couldn't be driven, so callers can report it and carry on.
+ */
+export interface MusicPlayer {
+  readonly id: PlayerId;
+  readonly label: string;
+  readonly capabilities: PlayerCapabilities;
+  isAvailable(): Promise<boolean>;
+  play(): Promise<boolean>;
+  pause(): Promise<boolean>;
+  getState(): Promise<PlaybackState>;
+  getNowPlaying(): Promise<Track | null>;
+  getVolume(): Promise<number | null>;
+  setVolume(volume: number): Promise<boolean>;
+  // Switch to a context URI, resuming where it was left off
+  playContext?(contextUri: string): Promise<boolean>;
+  // Play one track, stream or file right away
+  playUri?(uri: string): Promise<boolean>;
+  // Turn random order on or off for what's queued
+  setShuffle?(enabled: boolean): Promise<boolean>;
+  // Release anything the backend started (e.g. an mpv process)
+  dispose?(): Promise<void>;
+  // Leave what the backend started running after we exit, for music that
+  // should outlive tune-in. Returns how to stop it, if there's anything to say.
+  detach?(): string | null;
+}
+
+/**
+ * Spotify Desktop driven by OS controls (AppleScript, D-Bus, PowerShell)
+ */
+export class NativePlayer implements MusicPlayer {
+  readonly id = 'native';
+  readonly label = 'Spotify Desktop';
+  readonly capabilities: PlayerCapabilities = {
+    // AppleScript on macOS, MPRIS on Linux; nothing on Windows
+    state: process.platform !== 'win32',
+    nowPlaying: process.platform !== 'win32',
+    volume: process.platform !== 'win32',
+    contexts: false,
+  };
+
+  isAvailable(): Promise<boolean> {
+    return isSpotifyRunning();
+  }
+
+  play(): Promise<boolean> {
+    return playSpotifyNative();
+  }
+
+  pause(): Promise<boolean> {
+    return pauseSpotifyNative();
+  }
+
+  getState(): Promise<PlaybackState> {
+    return getSpotifyState();
+  }
+
+  getNowPlaying(): Promise<Track | null> {
+    return getCurrentTrack();
+  }
+
+  getVolume(): Promise<number | null> {
+    return getSpotifyVolume();
+  }
+
+  setVolume(volume: number): Promise<boolean> {
+    return setSpotifyVolume(volume);
+  }
+}
+
+/**
+ * Spotify Web API, for any device on the account (requires `tune-in auth`)
+ */
+export class WebApiPlayer implements MusicPlayer {
+  readonly id = 'web-api';
+  readonly label = 'Web API';
+  readonly capabilities: PlayerCapabilities = {
+    state: true,
+    nowPlaying: true,
+    volume: true,
+    contexts: true,
+  };
+
+  constructor(private client: SpotifyClient) {}
+
+  async isAvailable(): Promise<boolean> {
+    return this.client.isAuthenticated();
+  }
+
+  async play(): Promise<boolean> {
+    try {
+      await this.client.play();
+      return true;
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.status === 404) {
+        console.warn('⚠️  No Spotify device found. Please open Spotify on any device.');
+      } else if (error instanceof SpotifyApiError && error.status === 403) {
+        console.warn('⚠️  Cannot play - Spotify Premium required.');
+      }
+      return false;
+    }
+  }
+
+  async pause(): Promise<boolean> {
+    try {
+      await this.client.pause();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getState(): Promise<PlaybackState> {
+    try {
+      const playback = await this.client.getPlayback();
+      // No active device: nothing is playing
+      return playback?.isPlaying ? 'playing' : 'paused';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async getNowPlaying(): Promise<Track | null> {
+    try {
+      return (await this.client.getPlayback())?.track ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  async getVolume(): Promise<number | null> {
+    try {
+      return await this.client.getVolume();
+    } catch {
+      return null;
+    }
+  }
+
+  async setVolume(volume: number): Promise<boolean> {
+    try {
+      await this.client.setVolume(volume);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async playContext(contextUri: string): Promise<boolean> {
+    try {
+      const current = await this.client.getPlayback();
+      if (current?.contextUri === contextUri) {
+        await this.client.play();
+        return true;
+      }
+
+      // Remember where we left the context we're switching away from
+      if (current?.contextUri && current.trackUri) {
+        saveContextPosition(current.contextUri, {
+          trackUri: current.trackUri,
+          progressMs: current.progressMs,
+        });
+      }
+
+      const saved = loadContextPositions()[contextUri];
+      try {
+        await this.client.play({ contextUri, offsetUri: saved?.trackUri, positionMs: saved?.progressMs });
+      } catch (error: any) {
+        // The saved track may no longer be in the playlist; start it from the top
+        if (!saved || !(error instanceof SpotifyApiError) || error.status !== 400) throw error;
+        await this.client.play({ contextUri });
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async playUri(uri: string): Promise<boolean> {
+    try {
+      // Playlists, albums and the like are contexts; tracks and episodes aren't
+      const single = /^spotify:(?:track|episode):/.test(uri);
+      await this.client.play(single ? { uris: [uri] } : { contextUri: uri });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function createPlayer(id: PlayerId, settings: Settings): MusicPlayer {
+  switch (id) {
+    case 'native':
+      return new NativePlayer();
+    case 'mpris':
+      return new MprisPlayer({
+        players: settings.mpris.players.length > 0 ? settings.mpris.players : undefined,
+        busAddress: settings.mpris.busAddress ?? undefined,
+      });
+    case 'mpd':
+      return new MpdPlayer({
+        host: settings.mpd.host,
+        port: settings.mpd.port,
+        password: settings.mpd.password ?? undefined,
+      });
+    case 'web-api':
+      return new WebApiPlayer(createSpotifyClient(settings));
+    case 'mpv':
+      return new MpvPlayer({
+        source: settings.mpv.music ?? undefined,
+        shuffle: settings.mpv.shuffle,
+      });
+    case 'fake':
+      return new FakePlayer({ file: settings.fake.stateFile ?? undefined });
+  }
+}
+
+export interface ResolveOptions {
+  // Only consider this backend (defaults to the "player" setting)
+  preferred?: PlayerId;
+  // Try to open Spotify Desktop if no backend is available
+  launch?: boolean;
+}
+
+/**
+ * Pick the backend every entry point should use, in PLAYER_IDS order: Spotify
+ * Desktop if it's running, then any MPRIS player on Linux, then MPD, then the
+ * Web API if authenticated, and finally local files through mpv. The fake
+ * player is only used when set explicitly. Returns null if none is usable.
+ */
+export async function resolvePlayer(settings: Settings, options: ResolveOptions = {}): Promise<MusicPlayer | null> {
+  const preferred = options.preferred ?? (settings.player === 'auto' ? undefined : settings.player);
+  const candidates: PlayerId[] = preferred ? [preferred] : PLAYER_IDS.filter(id => !EXPLICIT_ONLY.includes(id));
+
+  for (const id of candidates) {
+    const player = createPlayer(id, settings);
+    if (await player.isAvailable()) {
+      return player;
+    }
+  }
+
+  if (options.launch && candidates.includes('native')) {
+    await openSpotify(settings.spotify.launchWaitMs);
+    const player = createPlayer('native', settings);
+    if (await player.isAvailable()) {
+      return player;
+    }
+  }
+
+  return null;
+}
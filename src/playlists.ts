@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './config';
+import type { Settings } from './settings';
+
+/**
+ * What's going on in the session, for picking what to play
+ */
+export type ActivityState = 'working' | 'typing' | 'long-tool';
+
+export type PlaylistMap = Partial<Record<ActivityState, string>>;
+
+export interface ContextPosition {
+  trackUri: string;
+  progressMs: number;
+}
+
+const POSITIONS_FILE = path.join(CONFIG_DIR, 'contexts.json');
+
+/**
+ * Accept spotify: URIs as-is and turn open.spotify.com links into URIs
+ */
+export function normalizeContextUri(value: string): string {
+  const match = value.match(/open\.spotify\.com\/(?:intl-[a-z]+\/)?(playlist|album|artist|show)\/([A-Za-z0-9]+)/);
+  if (match) {
+    return `spotify:${match[1]}:${match[2]}`;
+  }
+  if (!value.startsWith('spotify:')) {
+    throw new Error(`Not a Spotify URI or link: ${value}`);
+  }
+  return value;
+}
+
+export function playlistsFromSettings(settings: Settings): PlaylistMap {
+  const playlists: PlaylistMap = {};
+  for (const state of ['working', 'typing', 'long-tool'] as ActivityState[]) {
+    const context = settings.playlists[state];
+    if (context) playlists[state] = context;
+  }
+  return playlists;
+}
+
+/**
+ * Where each context was left, so switching back resumes it. Kept on disk so
+ * it survives between sessions.
+ */
+export function loadContextPositions(): Record<string, ContextPosition> {
+  try {
+    return JSON.parse(fs.readFileSync(POSITIONS_FILE, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+export function saveContextPosition(contextUri: string, position: ContextPosition): void {
+  const positions = loadContextPositions();
+  positions[contextUri] = position;
+  ensureConfigDir();
+  fs.writeFileSync(POSITIONS_FILE, JSON.stringify(positions, null, 2));
+}
+
+/**
+ * Fires onLong once a tool call has been running for thresholdMs. Call
+ * started() on PreToolUse and ended() on PostToolUse/Stop.
+ */
+export class ToolRunTracker {
+  private timer: NodeJS.Timeout | null = null;
+  private long = false;
+
+  constructor(private thresholdMs: number, private onLong: () => void) {}
+
+  started(): void {
+    this.cancel();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.long = true;
+      this.onLong();
+    }, this.thresholdMs);
+  }
+
+  /**
+   * Returns true if the tool call that just ended had turned into a long run
+   */
+  ended(): boolean {
+    const wasLong = this.long;
+    this.cancel();
+    return wasLong;
+  }
+
+  cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.long = false;
+  }
+}
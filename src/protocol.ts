@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import { StringDecoder } from 'string_decoder';
+import type { PlayerId } from './player';
+import { HOOK_EVENTS, HookEvent, parseSignal } from './rules';
+
+/**
+ * Wire protocol of the daemon socket (and of tune-in-claude's hook socket).
+ * One JSON object per line in both directions. A client opens with `hello`;
+ * every request carries an id that its response echoes. Subscribers also
+ * get id-less `event` messages pushed to them.
+ */
+export const PROTOCOL_VERSION = 1;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface DaemonStatus {
+  playing: boolean;
+  mode: PlayerId;
+  lastUpdate: number;
+  // You played or paused the player yourself and tune-in is backing off
+  override: boolean;
+}
+
+export type DaemonRequest =
+  | { type: 'hello'; version: number; client?: string }
+  | { type: 'hook'; event: HookEvent['event']; tool?: string }
+  | { type: 'signal'; signal: 'start' | 'stop' | 'tool-end' }
+  | { type: 'shuffle'; enabled: boolean }
+  | { type: 'status' }
+  | { type: 'subscribe' };
+
+export type RequestType = DaemonRequest['type'];
+
+export interface DaemonResults {
+  hello: { version: number; server: string };
+  hook: null;
+  signal: null;
+  // False when the player has no shuffle to control
+  shuffle: boolean;
+  status: DaemonStatus;
+  // The current status; changes follow as `state` events
+  subscribe: DaemonStatus;
+}
+
+export type ErrorCode =
+  | 'bad_request'
+  | 'handshake_required'
+  | 'unsupported_version'
+  | 'unknown_command'
+  | 'internal';
+
+export type DaemonResponse =
+  | { id: number | null; ok: true; result: unknown }
+  | { id: number | null; ok: false; error: { code: ErrorCode; message: string } };
+
+export interface DaemonEvent {
+  event: 'state';
+  state: DaemonStatus;
+}
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Call `onLine` for every complete line received on the socket, however the
+ * data happens to be split into chunks
+ */
+export function readLines(socket: net.Socket, onLine: (line: string) => void): void {
+  let buffer = '';
+  // Kept across chunks: a character can be split between two of them
+  const decoder = new StringDecoder('utf8');
+  socket.on('data', (data: Buffer) => {
+    buffer += decoder.write(data);
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+    }
+  });
+}
+
+function send(socket: net.Socket, message: DaemonResponse | DaemonEvent): void {
+  if (!socket.destroyed) socket.write(JSON.stringify(message) + '\n');
+}
+
+export interface ServerHandlers {
+  hook(hook: HookEvent): Promise<void>;
+  shuffle?(enabled: boolean): Promise<boolean>;
+  // Endpoints without a status (the wrapper's hook socket) answer status
+  // and subscribe with unknown_command
+  status?(): DaemonStatus;
+}
+
+/**
+ * Serves the protocol on a Unix socket
+ */
+export class ProtocolServer {
+  private server: net.Server;
+  private subscribers = new Set<net.Socket>();
+
+  constructor(private name: string, private handlers: ServerHandlers) {
+    this.server = net.createServer(socket => this.accept(socket));
+  }
+
+  listen(socketPath: string): void {
+    // Left behind by a previous run that didn't shut down cleanly
+    if (fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+    this.server.listen(socketPath);
+  }
+
+  close(): void {
+    for (const socket of this.subscribers) socket.end();
+    this.subscribers.clear();
+    this.server.close();
+  }
+
+  /**
+   * Push a state change to every subscriber
+   */
+  broadcast(state: DaemonStatus): void {
+    for (const socket of this.subscribers) send(socket, { event: 'state', state });
+  }
+
+  private accept(socket: net.Socket): void {
+    let greeted = false;
+    socket.on('error', () => {});
+    socket.on('close', () => this.subscribers.delete(socket));
+
+    readLines(socket, async line => {
+      let id: number | null = null;
+      try {
+        let request: any;
+        try {
+          request = JSON.parse(line);
+        } catch {
+          throw new ProtocolError('bad_request', 'Expected one JSON object per line');
+        }
+        if (typeof request !== 'object' || request === null || typeof request.type !== 'string') {
+          throw new ProtocolError('bad_request', 'Expected an object with a "type"');
+        }
+        id = typeof request.id === 'number' ? request.id : null;
+
+        if (request.type === 'hello') {
+          if (request.version !== PROTOCOL_VERSION) {
+            throw new ProtocolError(
+              'unsupported_version',
+              `Protocol version ${request.version} is not supported (this ${this.name} speaks ${PROTOCOL_VERSION})`
+            );
+          }
+          greeted = true;
+          send(socket, { id, ok: true, result: { version: PROTOCOL_VERSION, server: this.name } });
+          return;
+        }
+        if (!greeted) {
+          throw new ProtocolError('handshake_required', 'Send "hello" before anything else');
+        }
+
+        send(socket, { id, ok: true, result: await this.handle(request, socket) });
+      } catch (error: any) {
+        const code: ErrorCode = error instanceof ProtocolError ? error.code : 'internal';
+        send(socket, { id, ok: false, error: { code, message: error.message } });
+        // Nothing sensible can follow a failed handshake
+        if (code === 'unsupported_version' || code === 'handshake_required') socket.end();
+      }
+    });
+  }
+
+  private async handle(request: any, socket: net.Socket): Promise<unknown> {
+    switch (request.type) {
+      case 'hook': {
+        if (!HOOK_EVENTS.includes(request.event)) {
+          throw new ProtocolError('bad_request', `"event" must be one of ${HOOK_EVENTS.join(', ')}`);
+        }
+        if (request.tool !== undefined && typeof request.tool !== 'string') {
+          throw new ProtocolError('bad_request', '"tool" must be a string');
+        }
+        await this.handlers.hook({ event: request.event, tool: request.tool });
+        return null;
+      }
+
+      case 'signal': {
+        const hook = typeof request.signal === 'string' ? parseSignal(request.signal) : null;
+        if (!hook) {
+          throw new ProtocolError('bad_request', '"signal" must be start, stop or tool-end');
+        }
+        await this.handlers.hook(hook);
+        return null;
+      }
+
+      case 'shuffle': {
+        if (typeof request.enabled !== 'boolean') {
+          throw new ProtocolError('bad_request', '"enabled" must be true or false');
+        }
+        if (!this.handlers.shuffle) {
+          throw new ProtocolError('unknown_command', `The ${this.name} has no player to shuffle`);
+        }
+        return this.handlers.shuffle(request.enabled);
+      }
+
+      case 'status':
+      case 'subscribe': {
+        if (!this.handlers.status) {
+          throw new ProtocolError('unknown_command', `The ${this.name} has no status to report`);
+        }
+        if (request.type === 'subscribe') this.subscribers.add(socket);
+        return this.handlers.status();
+      }
+
+      default:
+        throw new ProtocolError('unknown_command', `Unknown command "${request.type}"`);
+    }
+  }
+}
+
+export type RequestParams<T extends RequestType> = Omit<Extract<DaemonRequest, { type: T }>, 'type'>;
+
+/**
+ * A connection to a ProtocolServer, handshake included
+ */
+export class ProtocolClient {
+  private nextId = 1;
+  private pending = new Map<number, { resolve(result: any): void; reject(error: Error): void }>();
+  private listeners: Array<(event: DaemonEvent) => void> = [];
+
+  private constructor(private socket: net.Socket) {
+    readLines(socket, line => this.receive(line));
+    // Surfaces as the pending requests being rejected on close
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      for (const { reject } of this.pending.values()) reject(new Error('Connection closed'));
+      this.pending.clear();
+    });
+  }
+
+  static connect(socketPath: string, client = 'tune-in'): Promise<ProtocolClient> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(socketPath);
+      socket.once('error', reject);
+      socket.once('connect', async () => {
+        const connection = new ProtocolClient(socket);
+        try {
+          await connection.request('hello', { version: PROTOCOL_VERSION, client });
+          resolve(connection);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+    });
+  }
+
+  private receive(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (typeof message.event === 'string') {
+      for (const listener of this.listeners) listener(message);
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    if (message.ok) {
+      pending.resolve(message.result);
+    } else {
+      pending.reject(new ProtocolError(message.error.code, message.error.message));
+    }
+  }
+
+  request<T extends RequestType>(type: T, params: RequestParams<T>): Promise<DaemonResults[T]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`No response to "${type}"`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, {
+        resolve: result => { clearTimeout(timer); resolve(result); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      });
+      this.socket.write(JSON.stringify({ ...params, type, id }) + '\n');
+    });
+  }
+
+  onEvent(listener: (event: DaemonEvent) => void): void {
+    this.listeners.push(listener);
+  }
+
+  onClose(listener: () => void): void {
+    this.socket.on('close', listener);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
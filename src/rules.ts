@@ -0,0 +1,220 @@
+import { ActivityState, ToolRunTracker } from './playlists';
+
+export const HOOK_EVENTS = ['PreToolUse', 'PostToolUse', 'Stop', 'Notification'] as const;
+export type HookEventName = typeof HOOK_EVENTS[number];
+
+/**
+ * A Claude Code hook invocation, reduced to what rules can match on
+ */
+export interface HookEvent {
+  event: HookEventName;
+  tool?: string;
+}
+
+export const RULE_ACTIONS = ['play', 'pause', 'duck', 'ignore'] as const;
+export type RuleAction = typeof RULE_ACTIONS[number];
+
+/**
+ * One entry of the "rules" setting. The first rule that matches an event
+ * decides what happens; events no rule matches get the default behavior.
+ */
+export interface Rule {
+  // Defaults to PreToolUse
+  event?: HookEventName | HookEventName[];
+  // Tool names; "*" is a wildcard, e.g. "mcp__*". Omit to match any tool.
+  tools?: string[];
+  // Only act once the tool has been running this long
+  minDurationMs?: number;
+  action: RuleAction;
+}
+
+const RULE_KEYS = ['event', 'tools', 'minDurationMs', 'action'];
+
+export function validateRules(value: unknown): Rule[] {
+  if (!Array.isArray(value)) {
+    throw new Error('rules: expected an array of rules');
+  }
+
+  return value.map((rule, i) => {
+    const where = `rules[${i}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      throw new Error(`${where}: expected an object`);
+    }
+    // A misspelt key would otherwise be ignored, e.g. "tool" making a rule
+    // match every tool
+    const unknown = Object.keys(rule).find(key => !RULE_KEYS.includes(key));
+    if (unknown !== undefined) {
+      throw new Error(`${where}.${unknown}: unknown key (expected ${RULE_KEYS.join(', ')})`);
+    }
+    if (!RULE_ACTIONS.includes(rule.action)) {
+      throw new Error(`${where}.action: expected one of ${RULE_ACTIONS.join(', ')}`);
+    }
+    if (rule.event !== undefined) {
+      const events = Array.isArray(rule.event) ? rule.event : [rule.event];
+      for (const event of events) {
+        if (!HOOK_EVENTS.includes(event)) {
+          throw new Error(`${where}.event: "${event}" is not one of ${HOOK_EVENTS.join(', ')}`);
+        }
+      }
+    }
+    if (rule.tools !== undefined && (!Array.isArray(rule.tools) || rule.tools.some((t: unknown) => typeof t !== 'string'))) {
+      throw new Error(`${where}.tools: expected an array of tool names`);
+    }
+    if (rule.minDurationMs !== undefined && (!Number.isInteger(rule.minDurationMs) || rule.minDurationMs < 0)) {
+      throw new Error(`${where}.minDurationMs: expected a non-negative integer`);
+    }
+    return rule as Rule;
+  });
+}
+
+function matchesTool(pattern: string, tool: string): boolean {
+  if (!pattern.includes('*')) return pattern === tool;
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(tool);
+}
+
+export function matchRule(rules: Rule[], hook: HookEvent): Rule | null {
+  for (const rule of rules) {
+    const events = rule.event === undefined ? ['PreToolUse'] : Array.isArray(rule.event) ? rule.event : [rule.event];
+    if (!events.includes(hook.event)) continue;
+    if (rule.tools && !(hook.tool && rule.tools.some(pattern => matchesTool(pattern, hook.tool!)))) continue;
+    return rule;
+  }
+  return null;
+}
+
+/**
+ * What tune-in did before rules existed
+ */
+export function defaultAction(event: HookEventName): RuleAction {
+  switch (event) {
+    case 'PreToolUse':
+      return 'play';
+    case 'PostToolUse':
+      return 'ignore';
+    case 'Stop':
+    case 'Notification':
+      return 'pause';
+  }
+}
+
+export interface RuleHandlers {
+  play(state: ActivityState): Promise<void>;
+  pause(): Promise<void>;
+  duck(): Promise<void>;
+}
+
+/**
+ * Turns hook events into player actions according to the rules. Shared by
+ * the wrapper and the daemon so both behave the same. Also undoes per-tool
+ * effects (ducking, the long-tool playlist) when the tool finishes.
+ */
+export class HookRouter {
+  private delayed: NodeJS.Timeout | null = null;
+  private restoreAfterTool = false;
+  private toolRuns: ToolRunTracker | null;
+
+  /**
+   * longToolMs: switch to the long-tool state after this long, or null to
+   * never do so
+   */
+  constructor(
+    private rules: Rule[],
+    private handlers: RuleHandlers,
+    longToolMs: number | null
+  ) {
+    this.toolRuns = longToolMs === null
+      ? null
+      : new ToolRunTracker(longToolMs, () => { this.handlers.play('long-tool'); });
+  }
+
+  private async run(action: RuleAction): Promise<void> {
+    switch (action) {
+      case 'play':
+        return this.handlers.play('working');
+      case 'pause':
+        return this.handlers.pause();
+      case 'duck':
+        this.restoreAfterTool = true;
+        return this.handlers.duck();
+      case 'ignore':
+        return;
+    }
+  }
+
+  private cancelDelayed(): void {
+    if (this.delayed) clearTimeout(this.delayed);
+    this.delayed = null;
+  }
+
+  async handle(hook: HookEvent): Promise<void> {
+    const rule = matchRule(this.rules, hook);
+    const action = rule ? rule.action : defaultAction(hook.event);
+
+    if (hook.event === 'PreToolUse') {
+      if (action === 'ignore') return;
+      this.cancelDelayed();
+      this.toolRuns?.started();
+      if (rule?.minDurationMs) {
+        this.delayed = setTimeout(() => {
+          this.delayed = null;
+          this.run(action);
+        }, rule.minDurationMs);
+        return;
+      }
+      return this.run(action);
+    }
+
+    if (hook.event === 'PostToolUse') {
+      this.cancelDelayed();
+      const wasLong = this.toolRuns?.ended() ?? false;
+      if (action !== 'ignore') return this.run(action);
+      if (this.restoreAfterTool || wasLong) {
+        this.restoreAfterTool = false;
+        return this.handlers.play('working');
+      }
+      return;
+    }
+
+    // Stop / Notification: the turn is over or Claude is waiting on you
+    if (action === 'ignore') return;
+    this.cancelDelayed();
+    this.toolRuns?.cancel();
+    this.restoreAfterTool = false;
+    return this.run(action);
+  }
+
+  cancel(): void {
+    this.cancelDelayed();
+    this.toolRuns?.cancel();
+  }
+}
+
+/**
+ * Map the plain start/stop/tool-end signals (`tune-in signal`, old-style
+ * hooks) onto tool-less events so they go through the same rules
+ */
+export function parseSignal(signal: string): HookEvent | null {
+  switch (signal) {
+    case 'start':
+      return { event: 'PreToolUse' };
+    case 'tool-end':
+      return { event: 'PostToolUse' };
+    case 'stop':
+      return { event: 'Stop' };
+  }
+  return null;
+}
+
+/**
+ * Reduce the JSON Claude Code passes a hook on stdin to a HookEvent
+ */
+export function parseHookInput(input: string): HookEvent | null {
+  try {
+    const payload = JSON.parse(input);
+    if (!HOOK_EVENTS.includes(payload.hook_event_name)) return null;
+    return { event: payload.hook_event_name, tool: payload.tool_name || undefined };
+  } catch {
+    return null;
+  }
+}
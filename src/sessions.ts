@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR } from './config';
+import { isProcessAlive } from './claude-settings';
+import type { OverrideState, OverrideStore } from './override';
+import type { ActivityState } from './playlists';
+import type { HeldVolume, PlaybackController } from './transitions';
+
+const SESSIONS_DIR = path.join(CONFIG_DIR, 'sessions');
+const HELD_VOLUME_FILE = path.join(SESSIONS_DIR, 'held-volume.json');
+const OVERRIDE_FILE = path.join(SESSIONS_DIR, 'override.json');
+
+/**
+ * One running tune-in-claude, as seen by the others
+ */
+export interface SessionRecord {
+  pid: number;
+  claudePid?: number;
+  cwd: string;
+  // Claude is working (or you're typing) and wants music
+  active: boolean;
+  startedAt: number;
+}
+
+/**
+ * Every wrapper registers itself in ~/.tune-in/sessions/<pid>.json. Records
+ * of processes that are gone are removed whenever the registry is read, so a
+ * killed session never holds the music on.
+ */
+export class SessionRegistry {
+  private record: SessionRecord;
+
+  constructor(readonly pid = process.pid, private dir = SESSIONS_DIR) {
+    this.record = { pid, cwd: process.cwd(), active: false, startedAt: Date.now() };
+  }
+
+  private get file(): string {
+    return path.join(this.dir, `${this.pid}.json`);
+  }
+
+  private write(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.record, null, 2));
+  }
+
+  register(claudePid?: number): void {
+    this.record.claudePid = claudePid;
+    this.write();
+  }
+
+  setActive(active: boolean): void {
+    if (this.record.active === active && fs.existsSync(this.file)) return;
+    this.record.active = active;
+    this.write();
+  }
+
+  unregister(): void {
+    try { fs.unlinkSync(this.file); } catch {}
+  }
+
+  /**
+   * Live sessions, this one included
+   */
+  list(): SessionRecord[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir).filter(name => /^\d+\.json$/.test(name));
+    } catch {
+      return [];
+    }
+
+    const sessions: SessionRecord[] = [];
+    for (const name of names) {
+      const file = path.join(this.dir, name);
+      let record: SessionRecord;
+      try {
+        record = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } catch {
+        continue;
+      }
+      if (record.pid !== this.pid && !isProcessAlive(record.pid)) {
+        try { fs.unlinkSync(file); } catch {}
+        continue;
+      }
+      sessions.push(record);
+    }
+    return sessions;
+  }
+
+  others(): SessionRecord[] {
+    return this.list().filter(session => session.pid !== this.pid);
+  }
+}
+
+function readJsonFile<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJsonFile(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value));
+}
+
+/**
+ * The volume the user had before a session ducked or faded, kept on disk so
+ * whichever session brings the music back restores it, not just the one
+ * that lowered it
+ */
+export function sharedHeldVolume(file = HELD_VOLUME_FILE): HeldVolume {
+  return {
+    get() {
+      const volume = readJsonFile<unknown>(file, null);
+      return typeof volume === 'number' ? volume : null;
+    },
+    set(volume) {
+      if (volume === null) {
+        try { fs.unlinkSync(file); } catch {}
+        return;
+      }
+      writeJsonFile(file, volume);
+    },
+  };
+}
+
+/**
+ * Manual-override state shared by all sessions: what the player was doing
+ * after any session last touched it, and whether the user has taken over
+ */
+export function sharedOverrideState(file = OVERRIDE_FILE): OverrideStore {
+  return {
+    get: () => ({ expected: null, since: null, ...readJsonFile<Partial<OverrideState>>(file, {}) }),
+    set: state => writeJsonFile(file, state),
+  };
+}
+
+/**
+ * Reference-counted playback across sessions: music plays while any session
+ * is active and is only paused (or ducked) once the last one goes idle.
+ */
+export class SessionArbiter {
+  constructor(
+    private controller: PlaybackController,
+    private registry: SessionRegistry
+  ) {}
+
+  private othersActive(): boolean {
+    return this.registry.others().some(session => session.active);
+  }
+
+  async play(state: ActivityState = 'working'): Promise<boolean> {
+    this.registry.setActive(true);
+    const others = this.registry.others();
+    // Another session already has the music on; switching it to our
+    // playlist would pull the rug out from under it
+    if (others.some(session => session.active)) return true;
+    // The last of them may have paused it since we played, which our
+    // controller can't know about
+    if (others.length > 0) this.controller.sync(await this.controller.player.getState());
+    return this.controller.play(state);
+  }
+
+  async pause(): Promise<boolean> {
+    this.registry.setActive(false);
+    if (this.othersActive()) return true;
+    return this.controller.pause();
+  }
+
+  async duck(): Promise<boolean> {
+    if (this.othersActive()) return true;
+    return this.controller.duck();
+  }
+
+  /**
+   * Leave the registry. Music another session still wants keeps playing;
+   * if the others are all idle it goes to their idle state instead of
+   * being stopped outright.
+   */
+  async stop(): Promise<boolean> {
+    this.registry.unregister();
+    const others = this.registry.others();
+    if (others.some(session => session.active)) return true;
+    if (others.length > 0) return this.controller.pause();
+    return this.controller.stop();
+  }
+}
@@ -0,0 +1,734 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './config';
+import { PLAYER_IDS } from './player-ids';
+import type { PlayerId } from './player-ids';
+import { FADE_CURVE_NAMES } from './transitions';
+import type { FadeCurve, TransitionMode } from './transitions';
+import { normalizeContextUri } from './playlists';
+import { validateRules } from './rules';
+import type { Rule } from './rules';
+import { COMPLETION_NOTIFY, validateCompletionRules } from './completion';
+import type { CompletionNotify, CompletionRule } from './completion';
+import { CREDENTIAL_STORE_IDS } from './credentials';
+import type { CredentialStoreId } from './credentials';
+import { STATUSLINE_THEMES, validateStatuslineFormat } from './statusline';
+import type { StatuslineTheme } from './statusline';
+import { OUTPUT_DETECT_MODES } from './output-activity';
+import type { OutputDetectMode } from './output-activity';
+
+export const SETTINGS_VERSION = 1;
+export const SETTINGS_FILE = path.join(CONFIG_DIR, 'settings.json');
+export const PROJECT_SETTINGS_NAME = '.tune-in.json';
+
+/**
+ * Everything a user can tune. Tokens are not settings; they live in the
+ * credential store.
+ */
+export interface Settings {
+  version: number;
+  // Backend to use, or auto-detect
+  player: 'auto' | PlayerId;
+  claude: {
+    // What tune-in-claude runs, e.g. a full path or a scripted stand-in
+    command: string;
+  };
+  typing: {
+    // Printable characters before music plays while typing
+    playThreshold: number;
+    // How long after the last keystroke music pauses
+    idleMs: number;
+  };
+  spotify: {
+    // How long to wait for Spotify Desktop after opening it
+    launchWaitMs: number;
+    // Web API device (name or id) to play on when none is active
+    device: string | null;
+    apiUrl: string;
+  };
+  auth: {
+    // Your Spotify app's client id (no secret needed)
+    clientId: string | null;
+    // Local port for the OAuth callback
+    port: number;
+    // null: http://127.0.0.1:<port>/callback
+    redirectUri: string | null;
+    tokenUrl: string;
+  };
+  credentials: {
+    // Where Spotify tokens are kept
+    store: CredentialStoreId;
+    // For the command store: prints the tokens, and saves refreshed ones
+    command: string | null;
+    saveCommand: string | null;
+  };
+  api: {
+    // Serve the daemon's HTTP/WebSocket API on localhost
+    enabled: boolean;
+    port: number;
+  };
+  mpris: {
+    players: string[];
+    busAddress: string | null;
+  };
+  mpd: {
+    host: string;
+    port: number;
+    password: string | null;
+  };
+  mpv: {
+    music: string | null;
+    shuffle: boolean;
+  };
+  fake: {
+    stateFile: string | null;
+  };
+  transition: {
+    mode: TransitionMode;
+    duckVolume: number;
+    // null: no fade in pause mode, a short fade in duck mode
+    fadeMs: number | null;
+    curve: FadeCurve;
+  };
+  output: {
+    // Infer working/waiting from claude's output: off, auto (until a hook
+    // fires) or on
+    detect: OutputDetectMode;
+    workingPatterns: string[];
+    waitingPatterns: string[];
+    quietMs: number;
+  };
+  statusline: {
+    // Placeholders: {icon} {track} {artist} {album} {claude} {player}
+    format: string;
+    theme: StatuslineTheme;
+    maxTrackLength: number;
+  };
+  stats: {
+    // Keep the event log `tune-in stats` reads
+    enabled: boolean;
+  };
+  soundtrack: {
+    // How often to check for a new track; 0 turns recording off
+    pollMs: number;
+  };
+  override: {
+    // How often to check for manual play/pause; 0 turns it off
+    pollMs: number;
+    // Back off this long after one; null: until the session ends
+    backoffMs: number | null;
+  };
+  playlists: {
+    'working': string | null;
+    'typing': string | null;
+    'long-tool': string | null;
+    longToolMs: number;
+  };
+  rules: Rule[];
+  command: {
+    // Run `tune-in <command>` in a pseudo-terminal and pause while it waits on you
+    pty: boolean;
+    // Pause after this long without output; 0: never
+    idleMs: number;
+    // Output that means the command wants input
+    promptPatterns: string[];
+    // Output that means a watcher or dev server is done for now
+    settlePatterns: string[];
+  };
+  completion: {
+    // What `tune-in <command>` does with the music when the command ends
+    rules: CompletionRule[];
+    notify: CompletionNotify;
+  };
+}
+
+export type SettingSource = 'default' | 'user' | 'project' | 'env';
+
+export class SettingsError extends Error {
+  constructor(public key: string, public origin: string, message: string) {
+    super(`Invalid setting "${key}" in ${origin}: ${message}`);
+    this.name = 'SettingsError';
+  }
+}
+
+interface SettingSpec {
+  description: string;
+  default: unknown;
+  // Returns the validated value or throws with a message about what's expected
+  parse(value: unknown): unknown;
+  env?: string;
+  // Custom env parsing; return undefined to leave the setting alone
+  fromEnv?(raw: string): unknown;
+}
+
+function integer(min: number, max = Number.MAX_SAFE_INTEGER) {
+  return (value: unknown) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(max === Number.MAX_SAFE_INTEGER ? `expected an integer >= ${min}` : `expected an integer from ${min} to ${max}`);
+    }
+    return value;
+  };
+}
+
+function oneOf(values: readonly string[]) {
+  return (value: unknown) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      throw new Error(`expected one of ${values.join(', ')}`);
+    }
+    return value;
+  };
+}
+
+function nonEmptyString(value: unknown) {
+  if (typeof value !== 'string' || value === '') throw new Error('expected a non-empty string');
+  return value;
+}
+
+function nullableString(value: unknown) {
+  if (value === null) return null;
+  if (typeof value !== 'string') throw new Error('expected a string or null');
+  return value;
+}
+
+function url(value: unknown) {
+  if (typeof value !== 'string' || !/^https?:\/\//.test(value)) throw new Error('expected an http(s) URL');
+  try {
+    new URL(value);
+  } catch {
+    throw new Error('expected an http(s) URL');
+  }
+  return value;
+}
+
+function nullableUrl(value: unknown) {
+  return value === null ? null : url(value);
+}
+
+function nullableContext(value: unknown) {
+  if (value === null) return null;
+  if (typeof value !== 'string') throw new Error('expected a Spotify URI, link or null');
+  return normalizeContextUri(value);
+}
+
+function boolean(value: unknown) {
+  if (typeof value !== 'boolean') throw new Error('expected true or false');
+  return value;
+}
+
+function stringList(value: unknown) {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error('expected a list of strings');
+  }
+  return value;
+}
+
+function regexList(value: unknown) {
+  const patterns = stringList(value);
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, 'iu');
+    } catch (error: any) {
+      throw new Error(`bad regex ${JSON.stringify(pattern)}: ${error.message}`);
+    }
+  }
+  return patterns;
+}
+
+function splitMpdHost(raw: string): { host: string; password?: string } {
+  const at = raw.lastIndexOf('@');
+  return at > 0 ? { host: raw.slice(at + 1), password: raw.slice(0, at) } : { host: raw };
+}
+
+export const SCHEMA: Record<string, SettingSpec> = {
+  'player': {
+    description: 'Backend to use: auto, or one of the player ids',
+    default: 'auto',
+    parse: oneOf(['auto', ...PLAYER_IDS]),
+    env: 'TUNE_IN_PLAYER',
+  },
+  'claude.command': {
+    description: 'Claude Code executable tune-in-claude runs',
+    default: 'claude',
+    parse: nonEmptyString,
+    env: 'TUNE_IN_CLAUDE_COMMAND',
+  },
+  'typing.playThreshold': {
+    description: 'Characters typed before music plays',
+    default: 3,
+    parse: integer(1),
+  },
+  'typing.idleMs': {
+    description: 'Pause this long after you stop typing',
+    default: 6000,
+    parse: integer(0),
+  },
+  'spotify.launchWaitMs': {
+    description: 'Wait this long after opening Spotify Desktop',
+    default: 3000,
+    parse: integer(0),
+  },
+  'spotify.device': {
+    description: 'Spotify device (name or id) to play on when none is active; see tune-in devices',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_SPOTIFY_DEVICE',
+  },
+  'spotify.apiUrl': {
+    description: 'Spotify Web API base URL',
+    default: 'https://api.spotify.com/v1',
+    parse: url,
+    env: 'TUNE_IN_SPOTIFY_API_URL',
+  },
+  'auth.clientId': {
+    description: 'Client id of your Spotify app',
+    default: null,
+    parse: nullableString,
+    env: 'SPOTIFY_CLIENT_ID',
+  },
+  'auth.port': {
+    description: 'Local port for the Spotify OAuth callback',
+    default: 8888,
+    parse: integer(1, 65535),
+    env: 'TUNE_IN_AUTH_PORT',
+  },
+  'auth.redirectUri': {
+    description: 'Redirect URI registered with your Spotify app (null: http://127.0.0.1:<auth.port>/callback)',
+    default: null,
+    parse: nullableUrl,
+    env: 'TUNE_IN_REDIRECT_URI',
+  },
+  'auth.tokenUrl': {
+    description: 'Spotify token endpoint',
+    default: 'https://accounts.spotify.com/api/token',
+    parse: url,
+    env: 'TUNE_IN_TOKEN_URL',
+  },
+  'credentials.store': {
+    description: 'Where Spotify tokens are kept: file, command or env',
+    default: 'file',
+    parse: oneOf(CREDENTIAL_STORE_IDS),
+    env: 'TUNE_IN_CREDENTIALS',
+  },
+  'credentials.command': {
+    description: 'Command that prints the tokens, for the command store',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_CREDENTIALS_COMMAND',
+  },
+  'credentials.saveCommand': {
+    description: 'Command that stores tokens passed as JSON on stdin (null: keep refreshes in memory)',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_CREDENTIALS_SAVE_COMMAND',
+  },
+  'api.enabled': {
+    description: 'Serve the daemon\'s HTTP/WebSocket API on localhost',
+    default: false,
+    parse: boolean,
+    env: 'TUNE_IN_API',
+  },
+  'api.port': {
+    description: 'Port for the daemon\'s HTTP/WebSocket API',
+    default: 8899,
+    parse: integer(1, 65535),
+    env: 'TUNE_IN_API_PORT',
+  },
+  'mpris.players': {
+    description: 'MPRIS players to use, in order of preference (empty: any)',
+    default: [],
+    parse: stringList,
+    env: 'TUNE_IN_MPRIS_PLAYERS',
+  },
+  'mpris.busAddress': {
+    description: 'D-Bus address to use instead of the session bus',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_DBUS_ADDRESS',
+  },
+  'mpd.host': {
+    description: 'MPD host',
+    default: 'localhost',
+    parse: nonEmptyString,
+    env: 'MPD_HOST',
+    fromEnv: raw => splitMpdHost(raw).host,
+  },
+  'mpd.port': {
+    description: 'MPD port',
+    default: 6600,
+    parse: integer(1, 65535),
+    env: 'MPD_PORT',
+  },
+  'mpd.password': {
+    description: 'MPD password',
+    default: null,
+    parse: nullableString,
+    env: 'MPD_HOST',
+    fromEnv: raw => splitMpdHost(raw).password,
+  },
+  'mpv.music': {
+    description: 'Folder or .m3u playlist to play with mpv',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_MUSIC',
+  },
+  'mpv.shuffle': {
+    description: 'Shuffle local files',
+    default: false,
+    parse: boolean,
+    env: 'TUNE_IN_SHUFFLE',
+  },
+  'fake.stateFile': {
+    description: 'JSON file the fake player keeps its state and calls in (null: memory only)',
+    default: null,
+    parse: nullableString,
+    env: 'TUNE_IN_FAKE_PLAYER_FILE',
+  },
+  'transition.mode': {
+    description: 'pause, or duck to lower the volume instead',
+    default: 'pause',
+    parse: oneOf(['pause', 'duck']),
+    env: 'TUNE_IN_TRANSITION',
+  },
+  'transition.duckVolume': {
+    description: 'Volume to duck to, 0-100',
+    default: 15,
+    parse: integer(0, 100),
+    env: 'TUNE_IN_DUCK_VOLUME',
+  },
+  'transition.fadeMs': {
+    description: 'Fade duration (null: 0 when pausing, 800 when ducking)',
+    default: null,
+    parse: value => value === null ? null : integer(0)(value),
+    env: 'TUNE_IN_FADE_MS',
+  },
+  'transition.curve': {
+    description: 'Fade curve',
+    default: 'ease-in-out',
+    parse: oneOf(FADE_CURVE_NAMES),
+    env: 'TUNE_IN_FADE_CURVE',
+  },
+  'output.detect': {
+    description: 'Follow Claude from its terminal output: off, auto (until a hook fires) or on',
+    default: 'auto',
+    parse: oneOf(OUTPUT_DETECT_MODES),
+    env: 'TUNE_IN_OUTPUT_DETECT',
+  },
+  'output.workingPatterns': {
+    description: 'Regexes in claude\'s output that mean it is working',
+    default: ['esc to +interrupt', '[·✢✳✶✻✽*] +\\w+…'],
+    parse: regexList,
+  },
+  'output.waitingPatterns': {
+    description: 'Regexes in claude\'s output that mean it needs you',
+    default: ['Do you want to (?:proceed|make this edit|create|run)', '❯ *1\\. *Yes'],
+    parse: regexList,
+  },
+  'output.quietMs': {
+    description: 'Claude counts as done once the working patterns are gone this long',
+    default: 2000,
+    parse: integer(100),
+    env: 'TUNE_IN_OUTPUT_QUIET_MS',
+  },
+  'statusline.format': {
+    description: 'What tune-in statusline prints: {icon} {track} {artist} {album} {claude} {player}',
+    default: '{icon} {track} — {artist} · {claude}',
+    parse: validateStatuslineFormat,
+    env: 'TUNE_IN_STATUSLINE_FORMAT',
+  },
+  'statusline.theme': {
+    description: 'Colors for tune-in statusline: plain, ansi (Claude Code, starship) or tmux',
+    default: 'plain',
+    parse: oneOf(STATUSLINE_THEMES),
+    env: 'TUNE_IN_STATUSLINE_THEME',
+  },
+  'statusline.maxTrackLength': {
+    description: 'Shorten longer track names in tune-in statusline',
+    default: 32,
+    parse: integer(2),
+  },
+  'stats.enabled': {
+    description: 'Log session activity for tune-in stats',
+    default: true,
+    parse: boolean,
+    env: 'TUNE_IN_STATS',
+  },
+  'soundtrack.pollMs': {
+    description: 'How often to log the current track for tune-in soundtrack (0: never)',
+    default: 15000,
+    parse: integer(0),
+    env: 'TUNE_IN_SOUNDTRACK_POLL_MS',
+  },
+  'override.pollMs': {
+    description: 'How often to check for manual play/pause (0: never)',
+    default: 3000,
+    parse: integer(0),
+    env: 'TUNE_IN_OVERRIDE_POLL_MS',
+  },
+  'override.backoffMs': {
+    description: 'Back off this long after a manual play/pause (null: until the session ends)',
+    default: 600000,
+    parse: value => value === null ? null : integer(0)(value),
+    env: 'TUNE_IN_OVERRIDE_MS',
+  },
+  'playlists.working': {
+    description: 'Spotify context to play while Claude works',
+    default: null,
+    parse: nullableContext,
+    env: 'TUNE_IN_PLAYLIST_WORKING',
+  },
+  'playlists.typing': {
+    description: 'Spotify context to play while you type',
+    default: null,
+    parse: nullableContext,
+    env: 'TUNE_IN_PLAYLIST_TYPING',
+  },
+  'playlists.long-tool': {
+    description: 'Spotify context to play during long tool runs',
+    default: null,
+    parse: nullableContext,
+    env: 'TUNE_IN_PLAYLIST_LONG_TOOL',
+  },
+  'playlists.longToolMs': {
+    description: 'How long a tool call runs before it counts as long',
+    default: 30000,
+    parse: integer(1),
+    env: 'TUNE_IN_LONG_TOOL_MS',
+  },
+  'rules': {
+    description: 'Per-tool rules (see README)',
+    default: [],
+    parse: validateRules,
+  },
+  'command.pty': {
+    description: 'Run tune-in <command> in a pseudo-terminal and pause while it waits for input',
+    default: false,
+    parse: boolean,
+    env: 'TUNE_IN_PTY',
+  },
+  'command.idleMs': {
+    description: 'With command.pty: pause after this long without output (0: never)',
+    default: 10000,
+    parse: integer(0),
+    env: 'TUNE_IN_COMMAND_IDLE_MS',
+  },
+  'command.promptPatterns': {
+    description: 'With command.pty: regexes in the output that mean the command wants input',
+    default: [
+      '\\[y/n\\]|\\(y/n\\)|\\[yes/no\\]|\\(yes/no(?:/\\[fingerprint\\])?\\)',
+      'password[^\\n]*: *$',
+      'passphrase[^\\n]*: *$',
+      'press (?:enter|return|any key)',
+    ],
+    parse: regexList,
+  },
+  'command.settlePatterns': {
+    description: 'With command.pty: regexes in the output that mean a watcher or dev server has settled',
+    default: [
+      'compiled successfully',
+      'watching for (?:file )?changes',
+      'waiting for (?:file )?changes',
+      'ready in \\d',
+    ],
+    parse: regexList,
+  },
+  'completion.rules': {
+    description: 'What tune-in <command> does with the music by exit status (see README)',
+    default: [],
+    parse: validateCompletionRules,
+  },
+  'completion.notify': {
+    description: 'Tell the terminal when tune-in <command> finishes: off, bell or osc (a desktop notification)',
+    default: 'off',
+    parse: oneOf(COMPLETION_NOTIFY),
+    env: 'TUNE_IN_NOTIFY',
+  },
+};
+
+// Older settings files are upgraded in memory; each entry takes version N to N+1
+const MIGRATIONS: Record<number, (data: any) => any> = {};
+
+function getPath(obj: any, key: string): unknown {
+  // Keys like "playlists.long-tool" only ever nest one level deep per dot
+  return key.split('.').reduce((value, part) => (value == null ? undefined : value[part]), obj);
+}
+
+function setPath(obj: any, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (typeof target[part] !== 'object' || target[part] === null) target[part] = {};
+    target = target[part];
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+// Also drops the sections the deletion leaves empty
+function deletePath(obj: any, key: string): void {
+  const [first, ...rest] = key.split('.');
+  if (rest.length === 0) {
+    delete obj[first];
+    return;
+  }
+  const child = obj[first];
+  if (!child || typeof child !== 'object') return;
+  deletePath(child, rest.join('.'));
+  if (Object.keys(child).length === 0) delete obj[first];
+}
+
+function flattenKeys(obj: any, prefix = ''): string[] {
+  const keys: string[] = [];
+  for (const [name, value] of Object.entries(obj)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (key in SCHEMA || typeof value !== 'object' || value === null || Array.isArray(value)) {
+      keys.push(key);
+    } else {
+      keys.push(...flattenKeys(value, key));
+    }
+  }
+  return keys;
+}
+
+function readSettingsFile(file: string): any {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new SettingsError('(file)', file, error.message);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new SettingsError('(file)', file, 'expected a JSON object');
+  }
+
+  let version = data.version ?? SETTINGS_VERSION;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new SettingsError('version', file, 'expected a positive integer');
+  }
+  if (version > SETTINGS_VERSION) {
+    throw new SettingsError('version', file, `written by a newer tune-in (version ${version}, this one supports ${SETTINGS_VERSION})`);
+  }
+  while (version < SETTINGS_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  data.version = version;
+  return data;
+}
+
+/**
+ * Nearest .tune-in.json from `cwd` upwards, stopping at the home directory
+ */
+export function findProjectSettings(cwd = process.cwd()): string | null {
+  const home = path.dirname(CONFIG_DIR);
+  let dir = path.resolve(cwd);
+  while (true) {
+    const candidate = path.join(dir, PROJECT_SETTINGS_NAME);
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir || dir === home) return null;
+    dir = parent;
+  }
+}
+
+export interface LoadedSettings {
+  settings: Settings;
+  sources: Record<string, SettingSource>;
+  projectFile: string | null;
+}
+
+/**
+ * Defaults, overridden by ~/.tune-in/settings.json, then the project's
+ * .tune-in.json, then environment variables. Throws SettingsError naming
+ * the offending key.
+ */
+export function loadSettingsWithSources(cwd = process.cwd()): LoadedSettings {
+  const settings: any = { version: SETTINGS_VERSION };
+  const sources: Record<string, SettingSource> = {};
+
+  for (const [key, spec] of Object.entries(SCHEMA)) {
+    setPath(settings, key, spec.default);
+    sources[key] = 'default';
+  }
+
+  const apply = (file: string, source: SettingSource) => {
+    const data = readSettingsFile(file);
+    for (const key of flattenKeys(data)) {
+      if (key === 'version') continue;
+      const spec = SCHEMA[key];
+      if (!spec) throw new SettingsError(key, file, 'unknown setting');
+      try {
+        setPath(settings, key, spec.parse(getPath(data, key)));
+      } catch (error: any) {
+        throw new SettingsError(key, file, error.message);
+      }
+      sources[key] = source;
+    }
+  };
+
+  if (fs.existsSync(SETTINGS_FILE)) apply(SETTINGS_FILE, 'user');
+  const projectFile = findProjectSettings(cwd);
+  if (projectFile) apply(projectFile, 'project');
+
+  for (const [key, spec] of Object.entries(SCHEMA)) {
+    const raw = spec.env ? process.env[spec.env] : undefined;
+    if (!raw) continue;
+    const value = spec.fromEnv ? spec.fromEnv(raw) : parseCliValue(key, raw, `$${spec.env}`);
+    if (value === undefined) continue;
+    try {
+      setPath(settings, key, spec.parse(value));
+    } catch (error: any) {
+      throw new SettingsError(key, `$${spec.env}`, error.message);
+    }
+    sources[key] = 'env';
+  }
+
+  return { settings, sources, projectFile };
+}
+
+export function loadSettings(cwd = process.cwd()): Settings {
+  return loadSettingsWithSources(cwd).settings;
+}
+
+export function getSetting(settings: Settings, key: string): unknown {
+  if (!(key in SCHEMA)) throw new SettingsError(key, 'command line', 'unknown setting');
+  return getPath(settings, key);
+}
+
+/**
+ * Turn a command-line string into a value for `key`: JSON if it parses and
+ * validates as JSON, the raw string otherwise ("true", "800", "null" and
+ * "[...]" all do what you'd expect; "localhost" stays a string).
+ */
+export function parseCliValue(key: string, raw: string, origin = 'command line'): unknown {
+  const spec = SCHEMA[key];
+  if (!spec) throw new SettingsError(key, origin, 'unknown setting');
+
+  // Env vars have always accepted "1" for on
+  if (spec.parse === boolean && (raw === '1' || raw === '0')) return raw === '1';
+
+  try {
+    return spec.parse(JSON.parse(raw));
+  } catch {
+    try {
+      return spec.parse(raw);
+    } catch (error: any) {
+      throw new SettingsError(key, origin, error.message);
+    }
+  }
+}
+
+/**
+ * Write one setting to the user file, or to a project file
+ */
+export function writeSetting(key: string, value: unknown, file = SETTINGS_FILE): void {
+  const data = fs.existsSync(file) ? readSettingsFile(file) : { version: SETTINGS_VERSION };
+  if (value === undefined) {
+    deletePath(data, key);
+  } else {
+    setPath(data, key, value);
+  }
+  if (file === SETTINGS_FILE) ensureConfigDir();
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n');
+}
@@ -0,0 +1,159 @@
+import type { EventLog, LoggedEvent } from './events';
+import type { MusicPlayer, Track } from './player';
+
+/**
+ * Polls the player for the current track and logs each new one, so the
+ * session's soundtrack can be exported afterwards
+ */
+export class TrackRecorder {
+  private timer?: NodeJS.Timeout;
+  private last: string | null = null;
+  private checking = false;
+
+  constructor(
+    private player: MusicPlayer,
+    private events: EventLog,
+    private pollMs: number,
+    // Called with each new track, e.g. to keep the status line current
+    private onTrack?: (track: Track) => void
+  ) {}
+
+  start(): void {
+    if (this.pollMs <= 0 || !this.player.capabilities.nowPlaying || this.timer) return;
+    this.check();
+    this.timer = setInterval(() => { this.check(); }, this.pollMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Log the current track if it changed since the last check
+   */
+  async check(): Promise<Track | null> {
+    if (this.checking) return null;
+    this.checking = true;
+    try {
+      const track = await this.player.getNowPlaying().catch(() => null);
+      if (!track) return null;
+      const key = track.uri ?? `${track.artist}\n${track.name}`;
+      if (key !== this.last) {
+        this.last = key;
+        this.events.record({ kind: 'track', name: track.name, artist: track.artist, uri: track.uri });
+        this.onTrack?.(track);
+      }
+      return track;
+    } finally {
+      this.checking = false;
+    }
+  }
+}
+
+export interface SoundtrackEntry {
+  name: string;
+  artist: string;
+  uri: string | null;
+  playedAt: number;
+  // Which Claude turn it came on during (1-based; 0 before the first), and
+  // the tool that was running, if any
+  turn: number;
+  // false: it came on while Claude was waiting for you
+  claudeWorking: boolean;
+  tool: string | null;
+}
+
+export interface Soundtrack {
+  session: string;
+  start: number;
+  cwd: string | null;
+  command: string | null;
+  tracks: SoundtrackEntry[];
+}
+
+/**
+ * Every session in the log that has at least one track, oldest first
+ */
+export function buildSoundtracks(events: LoggedEvent[]): Soundtrack[] {
+  const soundtracks = new Map<string, Soundtrack>();
+  const turns = new Map<string, number>();
+  const working = new Map<string, boolean>();
+  const tools = new Map<string, string[]>();
+
+  for (const event of events) {
+    if (!soundtracks.has(event.session)) {
+      soundtracks.set(event.session, { session: event.session, start: event.t, cwd: null, command: null, tracks: [] });
+    }
+    const soundtrack = soundtracks.get(event.session)!;
+    const running = tools.get(event.session) ?? [];
+    tools.set(event.session, running);
+
+    switch (event.kind) {
+      case 'session-start':
+        soundtrack.cwd = event.cwd;
+        soundtrack.command = event.command ?? null;
+        break;
+      case 'working':
+      case 'tool-start':
+        if (!working.get(event.session)) {
+          working.set(event.session, true);
+          turns.set(event.session, (turns.get(event.session) ?? 0) + 1);
+        }
+        if (event.kind === 'tool-start') running.push(event.tool || 'tool');
+        break;
+      case 'tool-end': {
+        const index = running.indexOf(event.tool || 'tool');
+        if (index !== -1) running.splice(index, 1);
+        break;
+      }
+      case 'your-turn':
+        working.set(event.session, false);
+        running.length = 0;
+        break;
+      case 'track':
+        soundtrack.tracks.push({
+          name: event.name,
+          artist: event.artist,
+          uri: event.uri ?? null,
+          playedAt: event.t,
+          turn: turns.get(event.session) ?? 0,
+          claudeWorking: working.get(event.session) ?? false,
+          tool: running[running.length - 1] ?? null,
+        });
+        break;
+    }
+  }
+
+  return [...soundtracks.values()].filter(soundtrack => soundtrack.tracks.length > 0);
+}
+
+/**
+ * spotify:track:... for anything that is a Spotify track, null otherwise
+ */
+export function spotifyTrackUri(uri: string | null): string | null {
+  if (!uri) return null;
+  if (/^spotify:track:[A-Za-z0-9]+$/.test(uri)) return uri;
+  const match = uri.match(/open\.spotify\.com\/(?:intl-[a-z]+\/)?track\/([A-Za-z0-9]+)/);
+  return match ? `spotify:track:${match[1]}` : null;
+}
+
+/**
+ * Extended M3U. Tracks with nothing to point at are left out.
+ */
+export function soundtrackToM3u(soundtrack: Soundtrack): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:tune-in ${new Date(soundtrack.start).toLocaleString()}`];
+  for (const track of soundtrack.tracks) {
+    if (!track.uri) continue;
+    lines.push(`#EXTINF:-1,${track.artist ? `${track.artist} - ` : ''}${track.name}`, track.uri);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * One spotify:track: URI per line; paste into a Spotify playlist to recreate it
+ */
+export function soundtrackToUris(soundtrack: Soundtrack): string {
+  const uris = soundtrack.tracks.map(track => spotifyTrackUri(track.uri)).filter((uri): uri is string => uri !== null);
+  return uris.length > 0 ? uris.join('\n') + '\n' : '';
+}
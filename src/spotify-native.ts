@@ -1,8 +1,13 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { getMprisPlaybackStatus, getMprisTrack } from './mpris';
+import type { PlaybackState, Track } from './player';
 
 const execAsync = promisify(exec);
 
+// Spotify Desktop's name on the D-Bus session bus, after org.mpris.MediaPlayer2.
+const SPOTIFY_MPRIS_NAME = 'spotify';
+
 /**
  * Check if Spotify Desktop is running
  */
@@ -31,23 +36,23 @@ export async function isSpotifyRunning(): Promise<boolean> {
 /**
  * Open Spotify application
  */
-export async function openSpotify(): Promise<boolean> {
+export async function openSpotify(waitMs = 3000): Promise<boolean> {
   try {
     if (process.platform === 'darwin') {
       // macOS - open Spotify
       await execAsync('open -a Spotify');
       // Wait for Spotify to launch
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await new Promise(resolve => setTimeout(resolve, waitMs));
       return true;
     } else if (process.platform === 'win32') {
       // Windows - open Spotify
       await execAsync('start spotify:');
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await new Promise(resolve => setTimeout(resolve, waitMs));
       return true;
     } else {
       // Linux - open Spotify
       await execAsync('spotify &');
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await new Promise(resolve => setTimeout(resolve, waitMs));
       return true;
     }
   } catch (error) {
@@ -106,19 +111,32 @@ export async function pauseSpotifyNative(): Promise<boolean> {
 }
 
 /**
- * Get current track info from Spotify
+ * Get current track info from Spotify (AppleScript on macOS, MPRIS on Linux)
  */
-export async function getCurrentTrack(): Promise<{ name: string; artist: string } | null> {
+export async function getCurrentTrack(): Promise<Track | null> {
   try {
     if (process.platform === 'darwin') {
+      // One field per line; the position is read in ms to dodge locale decimal commas
+      const fields = ['name', 'artist', 'album', 'duration', 'id', 'artwork url']
+        .map(field => `(${field} of current track)`);
       const { stdout } = await execAsync(
-        `osascript -e 'tell application "Spotify" to (get name of current track) & " — " & (get artist of current track)'`
+        `osascript -e 'tell application "Spotify" to ${[...fields, '((player position * 1000) as integer)'].join(' & linefeed & ')}'`
       );
-      const trimmed = stdout.trim();
-      const sepIdx = trimmed.indexOf(' — ');
-      if (sepIdx !== -1) {
-        return { name: trimmed.slice(0, sepIdx), artist: trimmed.slice(sepIdx + 3) };
+      const [name, artist, album, duration, uri, artworkUrl, position] = stdout.replace(/\n$/, '').split('\n');
+      if (artist !== undefined) {
+        const number = (value: string | undefined) => (value && Number.isFinite(Number(value)) ? Number(value) : undefined);
+        return {
+          name,
+          artist,
+          album: album || undefined,
+          durationMs: number(duration),
+          progressMs: number(position),
+          uri: uri || undefined,
+          artworkUrl: artworkUrl || undefined,
+        };
       }
+    } else if (process.platform !== 'win32') {
+      return await getMprisTrack(SPOTIFY_MPRIS_NAME);
     }
   } catch {
     // Ignore errors
@@ -129,7 +147,7 @@ export async function getCurrentTrack(): Promise<{ name: string; artist: string
 /**
  * Get current Spotify playback state
  */
-export async function getSpotifyState(): Promise<'playing' | 'paused' | 'unknown'> {
+export async function getSpotifyState(): Promise<PlaybackState> {
   try {
     if (process.platform === 'darwin') {
       const { stdout } = await execAsync(
@@ -138,9 +156,57 @@ export async function getSpotifyState(): Promise<'playing' | 'paused' | 'unknown
       const state = stdout.trim().toLowerCase();
       if (state.includes('playing')) return 'playing';
       if (state.includes('paused')) return 'paused';
+    } else if (process.platform !== 'win32') {
+      return await getMprisPlaybackStatus(SPOTIFY_MPRIS_NAME);
     }
   } catch (error) {
     // Ignore errors
   }
   return 'unknown';
 }
+
+/**
+ * Get Spotify's volume (0-100) using native OS controls
+ */
+export async function getSpotifyVolume(): Promise<number | null> {
+  try {
+    if (process.platform === 'darwin') {
+      const { stdout } = await execAsync(
+        'osascript -e \'tell application "Spotify" to sound volume as integer\''
+      );
+      const volume = parseInt(stdout.trim(), 10);
+      return isNaN(volume) ? null : volume;
+    } else if (process.platform !== 'win32') {
+      // Linux - MPRIS Volume property is a double between 0 and 1
+      const { stdout } = await execAsync(
+        'dbus-send --print-reply --dest=org.mpris.MediaPlayer2.spotify /org/mpris/MediaPlayer2 org.freedesktop.DBus.Properties.Get string:org.mpris.MediaPlayer2.Player string:Volume'
+      );
+      const match = stdout.match(/double\s+([\d.]+)/);
+      if (match) return Math.round(parseFloat(match[1]) * 100);
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null;
+}
+
+/**
+ * Set Spotify's volume (0-100) using native OS controls
+ */
+export async function setSpotifyVolume(volume: number): Promise<boolean> {
+  const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+  try {
+    if (process.platform === 'darwin') {
+      await execAsync(`osascript -e 'tell application "Spotify" to set sound volume to ${clamped}'`);
+      return true;
+    } else if (process.platform !== 'win32') {
+      await execAsync(
+        `dbus-send --print-reply --dest=org.mpris.MediaPlayer2.spotify /org/mpris/MediaPlayer2 org.freedesktop.DBus.Properties.Set string:org.mpris.MediaPlayer2.Player string:Volume variant:double:${clamped / 100}`
+      );
+      return true;
+    }
+  } catch {
+    // Ignore errors
+  }
+  return false;
+}
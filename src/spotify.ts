@@ -1,11 +1,16 @@
 import axios from "axios";
-import { loadConfig, saveConfig, Config } from "./config";
+import { createCredentialStore } from "./credentials";
+import type { CredentialStore, Credentials } from "./credentials";
+import type { Settings } from "./settings";
+import type { Track } from "./player";
 
-// Spotify credentials - set via environment variables or update here
-const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID || "your_client_id_here";
-const CLIENT_SECRET =
-  process.env.SPOTIFY_CLIENT_SECRET || "your_client_secret_here";
-const REDIRECT_URI = "http://localhost:8888/callback";
+export const AUTHORIZE_URL = "https://accounts.spotify.com/authorize";
+export const TOKEN_URL = "https://accounts.spotify.com/api/token";
+
+// Spotify only accepts loopback redirects by IP, not "localhost"
+export function redirectUriFor(port: number): string {
+  return `http://127.0.0.1:${port}/callback`;
+}
 
 export const SCOPES = [
   "user-read-playback-state",
@@ -13,25 +18,51 @@ export const SCOPES = [
   "user-read-currently-playing",
 ];
 
-export function getAuthUrl(): string {
+export interface AuthRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  // S256 hash of the PKCE code verifier
+  codeChallenge: string;
+}
+
+export function getAuthUrl(request: AuthRequest): string {
   const params = new URLSearchParams({
-    client_id: CLIENT_ID,
+    client_id: request.clientId,
     response_type: "code",
-    redirect_uri: REDIRECT_URI,
+    redirect_uri: request.redirectUri,
     scope: SCOPES.join(" "),
+    state: request.state,
+    code_challenge_method: "S256",
+    code_challenge: request.codeChallenge,
   });
-  return `https://accounts.spotify.com/authorize?${params.toString()}`;
+  return `${AUTHORIZE_URL}?${params.toString()}`;
 }
 
-export async function exchangeCodeForToken(code: string): Promise<void> {
+export interface TokenRequest {
+  clientId: string;
+  redirectUri: string;
+  codeVerifier: string;
+  tokenUrl: string;
+}
+
+/**
+ * Trade an authorization code for tokens (PKCE, so no client secret) and
+ * store them
+ */
+export async function exchangeCodeForToken(
+  store: CredentialStore,
+  code: string,
+  request: TokenRequest,
+): Promise<void> {
   const response = await axios.post(
-    "https://accounts.spotify.com/api/token",
+    request.tokenUrl,
     new URLSearchParams({
       grant_type: "authorization_code",
       code,
-      redirect_uri: REDIRECT_URI,
-      client_id: CLIENT_ID,
-      client_secret: CLIENT_SECRET,
+      redirect_uri: request.redirectUri,
+      client_id: request.clientId,
+      code_verifier: request.codeVerifier,
     }),
     {
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -39,99 +70,317 @@ export async function exchangeCodeForToken(code: string): Promise<void> {
   );
 
   const { access_token, refresh_token, expires_in } = response.data;
-  const config: Config = {
+  const credentials: Credentials = {
     accessToken: access_token,
     refreshToken: refresh_token,
     expiresAt: Date.now() + expires_in * 1000,
+    clientId: request.clientId,
+    tokenUrl: request.tokenUrl,
   };
 
-  saveConfig(config);
+  store.save(credentials);
 }
 
-async function refreshAccessToken(): Promise<string> {
-  const config = loadConfig();
-  if (!config.refreshToken) {
+async function refreshAccessToken(store: CredentialStore): Promise<string> {
+  const config = store.load();
+  if (!config.refreshToken || !config.clientId) {
     throw new Error("No refresh token available. Please run: tune-in auth");
   }
 
   const response = await axios.post(
-    "https://accounts.spotify.com/api/token",
+    config.tokenUrl ?? TOKEN_URL,
     new URLSearchParams({
       grant_type: "refresh_token",
       refresh_token: config.refreshToken,
-      client_id: CLIENT_ID,
-      client_secret: CLIENT_SECRET,
+      client_id: config.clientId,
     }),
     {
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
     },
   );
 
-  const { access_token, expires_in } = response.data;
+  const { access_token, refresh_token, expires_in } = response.data;
   config.accessToken = access_token;
+  // PKCE refresh tokens are rotated: the old one stops working
+  if (refresh_token) config.refreshToken = refresh_token;
   config.expiresAt = Date.now() + expires_in * 1000;
-  saveConfig(config);
+  store.save(config);
 
   return access_token;
 }
 
-async function getValidAccessToken(): Promise<string> {
-  const config = loadConfig();
+async function getValidAccessToken(store: CredentialStore): Promise<string> {
+  const config = store.load();
 
-  if (!config.accessToken || !config.refreshToken) {
+  if (!config.refreshToken) {
     throw new Error("Not authenticated. Please run: tune-in auth");
   }
 
   // Refresh if token expires in less than 5 minutes
-  if (!config.expiresAt || config.expiresAt < Date.now() + 5 * 60 * 1000) {
-    return await refreshAccessToken();
+  if (!config.accessToken || !config.expiresAt || config.expiresAt < Date.now() + 5 * 60 * 1000) {
+    return await refreshAccessToken(store);
   }
 
   return config.accessToken;
 }
 
-export async function playSpotify(): Promise<void> {
-  const token = await getValidAccessToken();
-
-  try {
-    await axios.put(
-      "https://api.spotify.com/v1/me/player/play",
-      {},
-      {
-        headers: { Authorization: `Bearer ${token}` },
-      },
-    );
-  } catch (error: any) {
-    if (error.response?.status === 404) {
-      console.warn(
-        "⚠️  No active Spotify device found. Please open Spotify on any device.",
+export const API_URL = "https://api.spotify.com/v1";
+
+export class SpotifyApiError extends Error {
+  constructor(
+    public status: number,
+    // Spotify's machine-readable reason, e.g. NO_ACTIVE_DEVICE or PREMIUM_REQUIRED
+    public reason: string | null,
+    message: string,
+  ) {
+    super(`Spotify API ${status}: ${message}`);
+    this.name = "SpotifyApiError";
+  }
+}
+
+export interface SpotifyClientOptions {
+  apiUrl?: string;
+  // Device name or id to play on when none is active
+  preferredDevice?: string | null;
+  // Attempts after the first for 429s, 5xx and network errors
+  maxRetries?: number;
+  // Give up rather than wait longer than this for a rate limit to lift
+  maxRetryAfterMs?: number;
+}
+
+export interface PlayOptions {
+  contextUri?: string;
+  // Tracks or episodes to play instead of a context
+  uris?: string[];
+  // Track within the context to start from, and where in it
+  offsetUri?: string;
+  positionMs?: number;
+}
+
+export interface PlaybackSnapshot {
+  isPlaying: boolean;
+  contextUri: string | null;
+  trackUri: string | null;
+  progressMs: number;
+  // null between tracks, or for ads
+  track: Track | null;
+}
+
+// A track or podcast episode from /me/player
+function trackFromItem(item: any, progressMs: number): Track | null {
+  if (!item?.name) return null;
+  // Episodes have a show instead of artists and an album
+  const artists: any[] = item.artists ?? [];
+  const images: any[] = item.album?.images ?? item.images ?? [];
+  return {
+    name: item.name,
+    artist: artists.length > 0 ? artists.map((artist) => artist.name).join(", ") : item.show?.name ?? "",
+    album: item.album?.name ?? item.show?.name ?? undefined,
+    durationMs: typeof item.duration_ms === "number" ? item.duration_ms : undefined,
+    progressMs,
+    uri: item.uri ?? undefined,
+    // Largest first
+    artworkUrl: images[0]?.url ?? undefined,
+  };
+}
+
+export interface SpotifyDevice {
+  id: string | null;
+  name: string;
+  type: string;
+  isActive: boolean;
+  isRestricted: boolean;
+  volumePercent: number | null;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * The Web API calls tune-in makes. Refreshes the token and retries once on
+ * a 401, waits out 429s for as long as Retry-After says (within reason),
+ * retries server errors with backoff, and moves playback to the preferred
+ * device when there's no active one.
+ */
+export class SpotifyClient {
+  private apiUrl: string;
+  private maxRetries: number;
+  private maxRetryAfterMs: number;
+
+  constructor(
+    private store: CredentialStore,
+    private options: SpotifyClientOptions = {},
+  ) {
+    this.apiUrl = (options.apiUrl ?? API_URL).replace(/\/+$/, "");
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 30000;
+  }
+
+  private async request<T = any>(method: "GET" | "PUT" | "POST", path: string, options: RequestOptions = {}): Promise<T | null> {
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      const token = await getValidAccessToken(this.store);
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.query ?? {})) {
+        if (value !== undefined) query.set(key, String(value));
+      }
+      const search = query.toString() ? `?${query}` : "";
+
+      let response;
+      try {
+        response = await axios.request({
+          method,
+          url: `${this.apiUrl}${path}${search}`,
+          data: method === "GET" ? undefined : options.body ?? {},
+          headers: { Authorization: `Bearer ${token}` },
+          validateStatus: () => true,
+          timeout: 10000,
+        });
+      } catch (error: any) {
+        // Network trouble
+        if (attempt >= this.maxRetries) throw error;
+        await sleep(500 * 2 ** attempt);
+        continue;
+      }
+
+      const { status } = response;
+      if (status < 300) {
+        // 204 No Content, e.g. no active device
+        return response.data === "" ? null : response.data ?? null;
+      }
+
+      if (status === 401 && !refreshed) {
+        // Revoked or expired early; one fresh token, then give up
+        refreshed = true;
+        await refreshAccessToken(this.store);
+        attempt--;
+        continue;
+      }
+
+      if ((status === 429 || status >= 500) && attempt < this.maxRetries) {
+        const retryAfter = Number(response.headers["retry-after"]);
+        const waitMs = status === 429 && Number.isFinite(retryAfter) ? retryAfter * 1000 : 500 * 2 ** attempt;
+        if (waitMs <= this.maxRetryAfterMs) {
+          await sleep(waitMs);
+          continue;
+        }
+      }
+
+      const error = response.data?.error;
+      throw new SpotifyApiError(
+        status,
+        typeof error?.reason === "string" ? error.reason : null,
+        typeof error?.message === "string" ? error.message : `${method} ${path} failed`,
       );
-    } else if (error.response?.status === 403) {
-      console.warn("⚠️  Cannot play - Spotify Premium required.");
-    } else {
+    }
+  }
+
+  isAuthenticated(): boolean {
+    try {
+      return !!this.store.load().refreshToken;
+    } catch {
+      return false;
+    }
+  }
+
+  async getDevices(): Promise<SpotifyDevice[]> {
+    const data = await this.request("GET", "/me/player/devices");
+    return (data?.devices ?? []).map((device: any): SpotifyDevice => ({
+      id: device.id ?? null,
+      name: device.name,
+      type: device.type,
+      isActive: !!device.is_active,
+      isRestricted: !!device.is_restricted,
+      volumePercent: typeof device.volume_percent === "number" ? device.volume_percent : null,
+    }));
+  }
+
+  /**
+   * The preferred device if it's online, otherwise the first that can be
+   * controlled
+   */
+  async pickDevice(): Promise<SpotifyDevice | null> {
+    const devices = (await this.getDevices()).filter((device) => device.id && !device.isRestricted);
+    const preferred = this.options.preferredDevice?.toLowerCase();
+    return (preferred && devices.find((device) => device.id === this.options.preferredDevice || device.name.toLowerCase() === preferred))
+      || devices[0]
+      || null;
+  }
+
+  async transferPlayback(deviceId: string, play: boolean): Promise<void> {
+    await this.request("PUT", "/me/player", { body: { device_ids: [deviceId], play } });
+  }
+
+  async play(options: PlayOptions = {}): Promise<void> {
+    // An empty body resumes whatever was playing
+    const body: Record<string, unknown> = {};
+    if (options.contextUri) body.context_uri = options.contextUri;
+    if (options.uris) body.uris = options.uris;
+    if (options.offsetUri) body.offset = { uri: options.offsetUri };
+    if (options.positionMs) body.position_ms = options.positionMs;
+
+    try {
+      await this.request("PUT", "/me/player/play", { body });
+    } catch (error) {
+      if (!(error instanceof SpotifyApiError) || error.status !== 404) throw error;
+      // The device we were playing on went away: move to another one
+      const device = await this.pickDevice();
+      if (!device?.id) throw error;
+      await this.transferPlayback(device.id, false);
+      await this.request("PUT", "/me/player/play", { body, query: { device_id: device.id } });
+    }
+  }
+
+  async pause(): Promise<void> {
+    try {
+      await this.request("PUT", "/me/player/pause");
+    } catch (error) {
+      // No active device or already paused: nothing to pause
+      if (error instanceof SpotifyApiError && (error.status === 404 || error.status === 403)) return;
       throw error;
     }
   }
-}
 
-export async function pauseSpotify(): Promise<void> {
-  const token = await getValidAccessToken();
-
-  try {
-    await axios.put(
-      "https://api.spotify.com/v1/me/player/pause",
-      {},
-      {
-        headers: { Authorization: `Bearer ${token}` },
-      },
-    );
-  } catch (error: any) {
-    if (error.response?.status === 404) {
-      // No active device - that's fine, nothing to pause
-    } else if (error.response?.status === 403) {
-      // Premium required - already shown during play
-    } else {
+  async getVolume(): Promise<number | null> {
+    const data = await this.request("GET", "/me/player");
+    const volume = data?.device?.volume_percent;
+    return typeof volume === "number" ? volume : null;
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    const clamped = Math.max(0, Math.min(100, Math.round(volume)));
+    try {
+      await this.request("PUT", "/me/player/volume", { query: { volume_percent: clamped } });
+    } catch (error) {
+      // No active device, or the device doesn't allow volume control
+      if (error instanceof SpotifyApiError && (error.status === 404 || error.status === 403)) return;
       throw error;
     }
   }
+
+  async getPlayback(): Promise<PlaybackSnapshot | null> {
+    // Without this, episodes come back with no item
+    const data = await this.request("GET", "/me/player", { query: { additional_types: "track,episode" } });
+    if (!data) return null;
+
+    const progressMs = data.progress_ms ?? 0;
+    return {
+      isPlaying: !!data.is_playing,
+      contextUri: data.context?.uri ?? null,
+      trackUri: data.item?.uri ?? null,
+      progressMs,
+      track: trackFromItem(data.item, progressMs),
+    };
+  }
+}
+
+export function createSpotifyClient(settings: Settings): SpotifyClient {
+  return new SpotifyClient(createCredentialStore(settings), {
+    apiUrl: settings.spotify.apiUrl,
+    preferredDevice: settings.spotify.device,
+  });
 }
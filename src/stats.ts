@@ -0,0 +1,196 @@
+import type { LoggedEvent, SessionSource } from './events';
+
+export interface ToolRun {
+  session: string;
+  tool: string;
+  start: number;
+  durationMs: number;
+}
+
+export interface SessionStats {
+  session: string;
+  source: SessionSource | 'unknown';
+  cwd: string | null;
+  command: string | null;
+  start: number;
+  end: number;
+  // Claude working vs waiting on you
+  workingMs: number;
+  waitingMs: number;
+  turns: number;
+  toolCalls: number;
+  longestTool: ToolRun | null;
+}
+
+export interface DayStats {
+  // Local date, YYYY-MM-DD
+  day: string;
+  sessions: number;
+  workingMs: number;
+  waitingMs: number;
+  turns: number;
+  toolCalls: number;
+}
+
+export interface Stats {
+  sessions: SessionStats[];
+  days: DayStats[];
+  longestTools: ToolRun[];
+}
+
+function localDay(t: number): string {
+  const date = new Date(t);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Replay one session's events. Time before the first turn counts as
+ * waiting on you: that's you writing the first prompt.
+ */
+function sessionStats(session: string, events: LoggedEvent[]): { stats: SessionStats; tools: ToolRun[] } {
+  const first = events[0];
+  const stats: SessionStats = {
+    session,
+    source: 'unknown',
+    cwd: null,
+    command: null,
+    start: first.t,
+    end: events[events.length - 1].t,
+    workingMs: 0,
+    waitingMs: 0,
+    turns: 0,
+    toolCalls: 0,
+    longestTool: null,
+  };
+  const tools: ToolRun[] = [];
+  // Start times of tool calls still running, by tool name
+  const running = new Map<string, number[]>();
+
+  let working = false;
+  let since = first.t;
+  const switchTo = (nowWorking: boolean, t: number) => {
+    if (nowWorking === working) return;
+    if (working) stats.workingMs += t - since; else stats.waitingMs += t - since;
+    working = nowWorking;
+    since = t;
+    if (nowWorking) stats.turns++;
+  };
+
+  for (const event of events) {
+    switch (event.kind) {
+      case 'session-start':
+        stats.source = event.source;
+        stats.cwd = event.cwd;
+        stats.command = event.command ?? null;
+        break;
+      case 'working':
+        switchTo(true, event.t);
+        break;
+      case 'your-turn':
+        switchTo(false, event.t);
+        break;
+      case 'tool-start': {
+        switchTo(true, event.t);
+        stats.toolCalls++;
+        const name = event.tool ?? '';
+        running.set(name, [...(running.get(name) ?? []), event.t]);
+        break;
+      }
+      case 'tool-end': {
+        const starts = running.get(event.tool ?? '');
+        const start = starts?.shift();
+        if (start !== undefined) {
+          tools.push({ session, tool: event.tool || 'tool', start, durationMs: event.t - start });
+        }
+        break;
+      }
+      case 'session-end':
+      case 'track':
+        break;
+    }
+  }
+
+  // Close whatever phase the session ended in
+  if (working) stats.workingMs += stats.end - since; else stats.waitingMs += stats.end - since;
+  stats.longestTool = tools.reduce<ToolRun | null>((longest, run) => (!longest || run.durationMs > longest.durationMs ? run : longest), null);
+  return { stats, tools };
+}
+
+/**
+ * Per-session and per-day totals from the event log. Sessions are counted
+ * towards the day they started on.
+ */
+export function computeStats(events: LoggedEvent[], options: { since?: number; top?: number } = {}): Stats {
+  const bySession = new Map<string, LoggedEvent[]>();
+  for (const event of events) {
+    if (!bySession.has(event.session)) bySession.set(event.session, []);
+    bySession.get(event.session)!.push(event);
+  }
+
+  const sessions: SessionStats[] = [];
+  let tools: ToolRun[] = [];
+  for (const [session, sessionEvents] of bySession) {
+    const result = sessionStats(session, sessionEvents);
+    if (options.since !== undefined && result.stats.end < options.since) continue;
+    sessions.push(result.stats);
+    tools = tools.concat(result.tools);
+  }
+  sessions.sort((a, b) => a.start - b.start);
+
+  const days = new Map<string, DayStats>();
+  for (const session of sessions) {
+    const day = localDay(session.start);
+    const totals = days.get(day) ?? { day, sessions: 0, workingMs: 0, waitingMs: 0, turns: 0, toolCalls: 0 };
+    totals.sessions++;
+    totals.workingMs += session.workingMs;
+    totals.waitingMs += session.waitingMs;
+    totals.turns += session.turns;
+    totals.toolCalls += session.toolCalls;
+    days.set(day, totals);
+  }
+
+  return {
+    sessions,
+    days: [...days.values()],
+    longestTools: tools.sort((a, b) => b.durationMs - a.durationMs).slice(0, options.top ?? 5),
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * CSV with one row per session or per day; durations in seconds
+ */
+export function statsToCsv(stats: Stats, by: 'session' | 'day'): string {
+  const seconds = (ms: number) => Math.round(ms / 1000);
+  if (by === 'day') {
+    return toCsv(
+      ['day', 'sessions', 'working_s', 'waiting_s', 'turns', 'tool_calls'],
+      stats.days.map(d => [d.day, d.sessions, seconds(d.workingMs), seconds(d.waitingMs), d.turns, d.toolCalls])
+    );
+  }
+  return toCsv(
+    ['session', 'source', 'start', 'end', 'cwd', 'command', 'working_s', 'waiting_s', 'turns', 'tool_calls', 'longest_tool', 'longest_tool_s'],
+    stats.sessions.map(s => [
+      s.session, s.source, new Date(s.start).toISOString(), new Date(s.end).toISOString(), s.cwd, s.command,
+      seconds(s.workingMs), seconds(s.waitingMs), s.turns, s.toolCalls,
+      s.longestTool?.tool, s.longestTool ? seconds(s.longestTool.durationMs) : null,
+    ])
+  );
+}
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+// `tune-in statusline` on its own: status bars run it on every redraw, so
+// this loads settings and the status cache and nothing else (no players,
+// no HTTP clients). `tune-in statusline` runs the same code.
+
+import { loadSettings } from './settings';
+import { STATUSLINE_THEMES, pickStatus, readStatuses, renderStatusline, validateStatuslineFormat } from './statusline';
+import type { StatuslineTheme } from './statusline';
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+export function runStatuslineCommand(args: string[]): void {
+  const { statusline } = loadSettings();
+  const theme = flagValue(args, '--theme') ?? statusline.theme;
+  if (!(STATUSLINE_THEMES as readonly string[]).includes(theme)) {
+    console.error(`\n❌ --theme must be one of ${STATUSLINE_THEMES.join(', ')}\n`);
+    process.exit(1);
+  }
+
+  let format = statusline.format;
+  try {
+    format = validateStatuslineFormat(flagValue(args, '--format') ?? format);
+  } catch (error: any) {
+    console.error(`\n❌ --format: ${error.message}\n`);
+    process.exit(1);
+  }
+
+  // Only reads what the daemon and sessions have cached; prints nothing when
+  // neither is running, so the status bar just stays empty
+  const line = renderStatusline(pickStatus(readStatuses()), {
+    format,
+    theme: theme as StatuslineTheme,
+    maxTrackLength: statusline.maxTrackLength,
+  });
+  if (line) console.log(line);
+}
+
+if (require.main === module) {
+  try {
+    runStatuslineCommand(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`\n❌ Error: ${error.message}\n`);
+    process.exit(1);
+  }
+}
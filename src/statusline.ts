@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR } from './config';
+import { isProcessAlive } from './claude-settings';
+import type { Track } from './player';
+import type { HookEvent } from './rules';
+
+export const STATUS_DIR = path.join(CONFIG_DIR, 'status');
+
+export const STATUSLINE_THEMES = ['plain', 'ansi', 'tmux'] as const;
+export type StatuslineTheme = typeof STATUSLINE_THEMES[number];
+
+const STATUSLINE_TOKENS = ['icon', 'track', 'artist', 'album', 'claude', 'player'] as const;
+type StatuslineToken = typeof STATUSLINE_TOKENS[number];
+
+/**
+ * What a running daemon or tune-in-claude session last knew, cached in
+ * ~/.tune-in/status/<pid>.json so `tune-in statusline` only has to read a
+ * file instead of asking the player
+ */
+export interface StatusSnapshot {
+  pid: number;
+  source: 'claude' | 'daemon';
+  cwd: string;
+  player: string | null;
+  playing: boolean;
+  // null until the first prompt or hook
+  claude: 'working' | 'waiting' | null;
+  override: boolean;
+  track: Pick<Track, 'name' | 'artist' | 'album'> | null;
+  updatedAt: number;
+}
+
+export class StatusWriter {
+  private snapshot: StatusSnapshot;
+
+  constructor(source: StatusSnapshot['source'], player: string | null, private dir = STATUS_DIR) {
+    this.snapshot = {
+      pid: process.pid,
+      source,
+      cwd: process.cwd(),
+      player,
+      playing: false,
+      claude: null,
+      override: false,
+      track: null,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private get file(): string {
+    return path.join(this.dir, `${process.pid}.json`);
+  }
+
+  update(changes: Partial<Omit<StatusSnapshot, 'pid' | 'source' | 'cwd'>>): void {
+    Object.assign(this.snapshot, changes, { updatedAt: Date.now() });
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      // Renamed into place so a status bar never reads half a file
+      const temp = `${this.file}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(this.snapshot));
+      fs.renameSync(temp, this.file);
+    } catch {
+      // The status line is cosmetic
+    }
+  }
+
+  track(track: Track | null): void {
+    this.update({ track: track && { name: track.name, artist: track.artist, album: track.album } });
+  }
+
+  /**
+   * Follow what a Claude Code hook event says about Claude
+   */
+  hook(hook: HookEvent): void {
+    switch (hook.event) {
+      case 'PreToolUse':
+        return this.update({ claude: 'working' });
+      case 'Stop':
+      case 'Notification':
+        return this.update({ claude: 'waiting' });
+    }
+  }
+
+  clear(): void {
+    try { fs.unlinkSync(this.file); } catch {}
+  }
+}
+
+/**
+ * Snapshots of every live daemon and session. Files left by processes that
+ * are gone are removed.
+ */
+export function readStatuses(dir = STATUS_DIR): StatusSnapshot[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir).filter(name => /^\d+\.json$/.test(name));
+  } catch {
+    return [];
+  }
+
+  const statuses: StatusSnapshot[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    try {
+      const status: StatusSnapshot = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (isProcessAlive(status.pid)) {
+        statuses.push(status);
+      } else {
+        fs.unlinkSync(file);
+      }
+    } catch {
+      // Unreadable; skip it
+    }
+  }
+  return statuses;
+}
+
+/**
+ * The session running in `cwd` (or the closest parent of it), since that's
+ * where Claude Code and tmux panes run the status line. Otherwise whichever
+ * was updated last.
+ */
+export function pickStatus(statuses: StatusSnapshot[], cwd = process.cwd()): StatusSnapshot | null {
+  const inside = (dir: string) => cwd === dir || cwd.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+  const local = statuses
+    .filter(status => status.source === 'claude' && inside(status.cwd))
+    .sort((a, b) => b.cwd.length - a.cwd.length || b.updatedAt - a.updatedAt);
+  if (local.length > 0) return local[0];
+  return [...statuses].sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
+}
+
+export function validateStatuslineFormat(value: unknown): string {
+  if (typeof value !== 'string') throw new Error('expected a string');
+  for (const [, token] of value.matchAll(/\{(\w+)\}/g)) {
+    if (!(STATUSLINE_TOKENS as readonly string[]).includes(token)) {
+      throw new Error(`unknown placeholder {${token}} (expected ${STATUSLINE_TOKENS.map(name => `{${name}}`).join(', ')})`);
+    }
+  }
+  return value;
+}
+
+type Style = 'strong' | 'dim' | 'playing' | 'working' | 'waiting';
+
+const STYLES: Record<StatuslineTheme, Record<Style, [string, string]>> = {
+  plain: { strong: ['', ''], dim: ['', ''], playing: ['', ''], working: ['', ''], waiting: ['', ''] },
+  ansi: {
+    strong: ['\x1b[1m', '\x1b[22m'],
+    dim: ['\x1b[2m', '\x1b[22m'],
+    playing: ['\x1b[32m', '\x1b[39m'],
+    working: ['\x1b[33m', '\x1b[39m'],
+    waiting: ['\x1b[36m', '\x1b[39m'],
+  },
+  tmux: {
+    strong: ['#[bold]', '#[nobold]'],
+    dim: ['#[dim]', '#[nodim]'],
+    playing: ['#[fg=green]', '#[fg=default]'],
+    working: ['#[fg=yellow]', '#[fg=default]'],
+    waiting: ['#[fg=cyan]', '#[fg=default]'],
+  },
+};
+
+export interface StatuslineOptions {
+  format: string;
+  theme: StatuslineTheme;
+  // Longer track names are cut short with an ellipsis
+  maxTrackLength: number;
+}
+
+function truncate(text: string, max: number): string {
+  const chars = [...text];
+  return chars.length > max ? chars.slice(0, Math.max(1, max - 1)).join('') + '…' : text;
+}
+
+/**
+ * Fill in the format. Text between placeholders goes away along with the
+ * values it separates, so "{icon} {track} — {artist} · {claude}" doesn't
+ * leave a dangling " — " when nothing is playing.
+ */
+export function renderStatusline(status: StatusSnapshot | null, options: StatuslineOptions): string {
+  if (!status) return '';
+  const style = (kind: Style, text: string) => {
+    if (!text || options.theme === 'plain') return text;
+    // tmux reads a literal # as the start of a style
+    const escaped = options.theme === 'tmux' ? text.replace(/#/g, '##') : text;
+    const [open, close] = STYLES[options.theme][kind];
+    return open + escaped + close;
+  };
+
+  const track = status.track;
+  const values: Record<StatuslineToken, string> = {
+    icon: track || status.playing ? style(status.playing ? 'playing' : 'dim', status.playing ? '♪' : '⏸') : '',
+    track: track ? style('strong', truncate(track.name, options.maxTrackLength)) : '',
+    artist: track?.artist ? style('dim', track.artist) : '',
+    album: track?.album ? style('dim', track.album) : '',
+    claude: status.override
+      ? style('dim', 'manual')
+      : status.claude === 'working'
+        ? style('working', 'Claude working')
+        : status.claude === 'waiting' ? style('waiting', 'your turn') : '',
+    player: status.player ?? '',
+  };
+
+  // Alternating literal, placeholder, literal, ...
+  const parts = options.format.split(/\{(\w+)\}/);
+  let output = '';
+  let seenValue = false;
+  for (let i = 0; i < parts.length; i++) {
+    if (i % 2 === 1) {
+      const value = values[parts[i] as StatuslineToken] ?? '';
+      output += value;
+      seenValue ||= value !== '';
+      continue;
+    }
+    const leading = i === 0;
+    const trailing = i === parts.length - 1;
+    const nextValue = trailing ? '' : values[parts[i + 1] as StatuslineToken] ?? '';
+    if ((leading || seenValue) && (trailing ? seenValue : nextValue !== '')) output += parts[i];
+  }
+  return output;
+}
@@ -0,0 +1,275 @@
+import type { MusicPlayer, PlaybackState } from './player';
+import { playlistsFromSettings } from './playlists';
+import type { ActivityState, PlaylistMap } from './playlists';
+import type { Settings } from './settings';
+
+export type TransitionMode = 'pause' | 'duck';
+export type FadeCurve = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+const FADE_CURVES: Record<FadeCurve, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t,
+  'ease-out': t => 1 - (1 - t) * (1 - t),
+  'ease-in-out': t => t * t * (3 - 2 * t),
+};
+
+export interface TransitionOptions {
+  // pause: fade out then pause; duck: fade down to duckVolume and keep playing
+  mode: TransitionMode;
+  // Volume (0-100) to duck to while it's your turn
+  duckVolume: number;
+  // 0 means hard play/pause with no fade
+  fadeMs: number;
+  curve: FadeCurve;
+}
+
+/**
+ * Where the controller keeps the volume to restore after a fade or duck.
+ * In memory by default; shared between sessions when several wrappers run.
+ */
+export interface HeldVolume {
+  get(): number | null;
+  set(volume: number | null): void;
+}
+
+function memoryHeldVolume(): HeldVolume {
+  let volume: number | null = null;
+  return {
+    get: () => volume,
+    set: (value) => { volume = value; },
+  };
+}
+
+export const FADE_CURVE_NAMES = Object.keys(FADE_CURVES) as FadeCurve[];
+
+// Ducking without a fade would just be a volume jump
+const DEFAULT_DUCK_FADE_MS = 800;
+
+export function transitionOptionsFromSettings(settings: Settings): TransitionOptions {
+  const { mode, duckVolume, fadeMs, curve } = settings.transition;
+  return {
+    mode,
+    duckVolume,
+    fadeMs: fadeMs ?? (mode === 'duck' ? DEFAULT_DUCK_FADE_MS : 0),
+    curve,
+  };
+}
+
+/**
+ * Volume at `t` (0-1) of the way through a fade from `from` to `to`
+ */
+export function fadeStep(from: number, to: number, t: number, curve: FadeCurve): number {
+  const eased = FADE_CURVES[curve](Math.max(0, Math.min(1, t)));
+  return Math.round(from + (to - from) * eased);
+}
+
+/**
+ * Wraps a player so every "Claude is working" / "your turn" transition goes
+ * through one place: hard play/pause, fade then pause, or duck. A new
+ * transition cancels a fade that is still running.
+ */
+export class PlaybackController {
+  private generation = 0;
+  private paused = true;
+  private context: string | null = null;
+
+  constructor(
+    readonly player: MusicPlayer,
+    readonly options: TransitionOptions,
+    readonly playlists: PlaylistMap = {},
+    private held: HeldVolume = memoryHeldVolume()
+  ) {}
+
+  // Volume the user had before we touched it; null when we're not holding one
+  private get userVolume(): number | null {
+    return this.held.get();
+  }
+
+  private set userVolume(volume: number | null) {
+    this.held.set(volume);
+  }
+
+  /**
+   * Start playback for `state`: switch to its playlist if one is mapped and
+   * it isn't already on, otherwise just resume.
+   */
+  private start(state: ActivityState): Promise<boolean> {
+    const context = this.playlists[state];
+    if (context && context !== this.context && this.player.playContext) {
+      this.context = context;
+      return this.player.playContext(context);
+    }
+    return this.player.play();
+  }
+
+  /**
+   * What the player should be doing after the last transition. Ducked
+   * music is still playing.
+   */
+  get intendedState(): 'playing' | 'paused' {
+    return this.paused ? 'paused' : 'playing';
+  }
+
+  private get fades(): boolean {
+    return this.options.fadeMs > 0 && this.player.capabilities.volume;
+  }
+
+  // The Web API rate-limits, so fade in fewer, larger steps there
+  private get stepMs(): number {
+    return this.player.id === 'web-api' ? 300 : 100;
+  }
+
+  private async captureUserVolume(): Promise<number | null> {
+    if (this.userVolume === null) {
+      this.userVolume = await this.player.getVolume();
+    }
+    return this.userVolume;
+  }
+
+  /**
+   * Resolves true if the fade ran to completion, false if it was superseded
+   */
+  private async fade(from: number, to: number, generation: number): Promise<boolean> {
+    const steps = Math.max(1, Math.round(this.options.fadeMs / this.stepMs));
+    for (let i = 1; i <= steps; i++) {
+      if (generation !== this.generation) return false;
+      await this.player.setVolume(fadeStep(from, to, i / steps, this.options.curve));
+      if (i < steps) await new Promise(resolve => setTimeout(resolve, this.stepMs));
+    }
+    return generation === this.generation;
+  }
+
+  private needsSwitch(state: ActivityState): boolean {
+    const context = this.playlists[state];
+    return !!context && context !== this.context && !!this.player.playContext;
+  }
+
+  /**
+   * Claude is working (or you're typing): start playing, switch to the
+   * state's playlist, or bring the volume back up. A no-op if that's
+   * already the case.
+   */
+  async play(state: ActivityState = 'working'): Promise<boolean> {
+    if (!this.paused && this.userVolume === null && !this.needsSwitch(state)) {
+      return true;
+    }
+    const generation = ++this.generation;
+
+    if (!this.fades && this.userVolume === null) {
+      this.paused = false;
+      return this.start(state);
+    }
+
+    const target = await this.captureUserVolume();
+    if (target === null) {
+      this.paused = false;
+      return this.start(state);
+    }
+
+    let from = (await this.player.getVolume()) ?? target;
+    if (this.paused) {
+      // Start silent so the fade-in is audible from the first step
+      if (this.options.mode === 'pause') {
+        await this.player.setVolume(0);
+        from = 0;
+      }
+      if (!(await this.start(state))) return false;
+      this.paused = false;
+    } else if (this.needsSwitch(state)) {
+      await this.start(state);
+    }
+
+    if (await this.fade(from, target, generation)) {
+      this.userVolume = null;
+    }
+    return true;
+  }
+
+  /**
+   * Your turn: pause (fading out first if configured), or duck
+   */
+  async pause(): Promise<boolean> {
+    const generation = ++this.generation;
+
+    if (!this.fades) {
+      this.paused = true;
+      return this.player.pause();
+    }
+
+    const target = await this.captureUserVolume();
+    if (target === null) {
+      this.paused = true;
+      return this.player.pause();
+    }
+
+    if (this.options.mode === 'duck') {
+      return this.duckTo(target, generation);
+    }
+
+    const from = (await this.player.getVolume()) ?? target;
+    if (!(await this.fade(from, 0, generation))) return true;
+    this.paused = true;
+    const paused = await this.player.pause();
+    // Leave the volume where the user had it for the next manual play
+    await this.player.setVolume(target);
+    this.userVolume = null;
+    return paused;
+  }
+
+  /**
+   * Lower the volume to the duck floor without pausing, whatever the mode.
+   * The next play() brings it back up.
+   */
+  async duck(): Promise<boolean> {
+    const generation = ++this.generation;
+    if (!this.player.capabilities.volume) return false;
+
+    const target = await this.captureUserVolume();
+    if (target === null) return false;
+    return this.duckTo(target, generation);
+  }
+
+  private async duckTo(userVolume: number, generation: number): Promise<boolean> {
+    const from = (await this.player.getVolume()) ?? userVolume;
+    await this.fade(from, Math.min(this.options.duckVolume, userVolume), generation);
+    return true;
+  }
+
+  /**
+   * Take `state` as what the player is doing, e.g. after the user played or
+   * paused it by hand. Cancels any fade and forgets the held volume: the
+   * user has set things up the way they want them.
+   */
+  adopt(state: PlaybackState): void {
+    ++this.generation;
+    this.paused = state !== 'playing';
+    this.userVolume = null;
+  }
+
+  /**
+   * Catch up with what the player is doing after someone else (another
+   * session) may have played or paused it. Unlike adopt(), a running fade
+   * and the held volume are left alone.
+   */
+  sync(state: PlaybackState): void {
+    this.paused = state !== 'playing';
+  }
+
+  /**
+   * End of session: pause for real and undo any ducking
+   */
+  async stop(): Promise<boolean> {
+    ++this.generation;
+    this.paused = true;
+    const paused = await this.player.pause();
+    if (this.userVolume !== null) {
+      await this.player.setVolume(this.userVolume);
+      this.userVolume = null;
+    }
+    return paused;
+  }
+}
+
+export function createController(player: MusicPlayer, settings: Settings, held?: HeldVolume): PlaybackController {
+  return new PlaybackController(player, transitionOptionsFromSettings(settings), playlistsFromSettings(settings), held);
+}
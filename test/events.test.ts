@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EventLog, readEvents } from '../src/events';
+
+describe('event log', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tune-in-events-'));
+    file = path.join(dir, 'events.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back what was recorded, tagged with the session', () => {
+    const log = new EventLog(true, file);
+    log.record({ kind: 'session-start', source: 'claude', cwd: '/work' });
+    log.hook({ event: 'PreToolUse', tool: 'Bash' });
+    log.hook({ event: 'PostToolUse', tool: 'Bash' });
+    log.hook({ event: 'Stop' });
+
+    const events = readEvents(file);
+    expect(events.map(event => event.kind)).toEqual(['session-start', 'tool-start', 'tool-end', 'your-turn']);
+    expect(events.every(event => event.session === log.session)).toBe(true);
+    expect(events[1]).toMatchObject({ kind: 'tool-start', tool: 'Bash' });
+  });
+
+  it('records nothing when disabled', () => {
+    new EventLog(false, file).record({ kind: 'working' });
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('skips lines that are cut off or not events, and sorts by time', () => {
+    fs.writeFileSync(file, [
+      JSON.stringify({ t: 20, session: 'a', kind: 'your-turn' }),
+      '{"t": 30, "session": "a", "ki',
+      JSON.stringify({ t: 5, kind: 'working' }),
+      '',
+      JSON.stringify({ t: 10, session: 'a', kind: 'working' }),
+    ].join('\n'));
+
+    expect(readEvents(file)).toEqual([
+      { t: 10, session: 'a', kind: 'working' },
+      { t: 20, session: 'a', kind: 'your-turn' },
+    ]);
+  });
+
+  it('reads a missing log as empty', () => {
+    expect(readEvents(file)).toEqual([]);
+  });
+});
@@ -0,0 +1,351 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import * as pty from 'node-pty';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { FakePlayerState } from '../src/fake-player';
+import type { FakeClaudeStep } from '../src/fake-claude';
+
+// End to end: the built binaries, run against the fake player and the
+// scripted fake claude. `npm test` builds dist/ first.
+const DIST = path.join(__dirname, '..', 'dist');
+const TUNE_IN = path.join(DIST, 'index.js');
+const TUNE_IN_CLAUDE = path.join(DIST, 'claude-wrapper.js');
+const FAKE_CLAUDE = path.join(DIST, 'fake-claude.js');
+
+interface Sandbox {
+  home: string;
+  playerFile: string;
+  env: NodeJS.ProcessEnv;
+}
+
+const sandboxes: string[] = [];
+
+// A fresh HOME, so nothing here touches the real ~/.claude or ~/.tune-in
+function sandbox(extra: NodeJS.ProcessEnv = {}): Sandbox {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'tune-in-test-'));
+  sandboxes.push(home);
+  const playerFile = path.join(home, 'fake-player.json');
+  // Settings from the environment running the tests don't leak in
+  const inherited = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith('TUNE_IN_')));
+  const env: NodeJS.ProcessEnv = {
+    ...inherited,
+    HOME: home,
+    TUNE_IN_PLAYER: 'fake',
+    TUNE_IN_FAKE_PLAYER_FILE: playerFile,
+    TUNE_IN_CLAUDE_COMMAND: FAKE_CLAUDE,
+    TUNE_IN_FADE_MS: '0',
+    ...extra,
+  };
+  return { home, playerFile, env };
+}
+
+function writeScript(box: Sandbox, steps: FakeClaudeStep[]): void {
+  const file = path.join(box.home, 'claude-script.json');
+  fs.writeFileSync(file, JSON.stringify(steps));
+  box.env.TUNE_IN_FAKE_CLAUDE_SCRIPT = file;
+}
+
+// What the player was asked to do, in order
+function playerCalls(box: Sandbox): string[] {
+  if (!fs.existsSync(box.playerFile)) return [];
+  const state: FakePlayerState = JSON.parse(fs.readFileSync(box.playerFile, 'utf-8'));
+  return state.calls.map(call => call.method);
+}
+
+function playerState(box: Sandbox): FakePlayerState['state'] {
+  return JSON.parse(fs.readFileSync(box.playerFile, 'utf-8')).state;
+}
+
+interface Run {
+  code: number | null;
+  output: string;
+}
+
+// Run with plain pipes, the way a script would
+function run(args: string[], box: Sandbox): Promise<Run> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [TUNE_IN, ...args], { cwd: box.home, env: box.env });
+    let output = '';
+    child.stdout.on('data', data => output += data);
+    child.stderr.on('data', data => output += data);
+    child.on('error', reject);
+    child.on('exit', code => resolve({ code, output }));
+  });
+}
+
+// Run in a terminal, the way tune-in-claude is used. `onOutput` can type
+// back; it gets everything printed so far.
+function runInTerminal(
+  args: string[],
+  box: Sandbox,
+  onOutput: (output: string, terminal: pty.IPty) => void = () => {}
+): Promise<Run> {
+  return new Promise(resolve => {
+    const terminal = pty.spawn(process.execPath, args, {
+      name: 'xterm-256color',
+      cols: 100,
+      rows: 30,
+      cwd: box.home,
+      env: box.env as Record<string, string>,
+    });
+    let output = '';
+    terminal.onData(data => {
+      output += data;
+      onOutput(output, terminal);
+    });
+    terminal.onExit(({ exitCode }) => resolve({ code: exitCode, output }));
+  });
+}
+
+function waitFor(condition: () => boolean, timeoutMs = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('timed out waiting'));
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
+
+beforeAll(() => {
+  for (const file of [TUNE_IN, TUNE_IN_CLAUDE, FAKE_CLAUDE]) {
+    if (!fs.existsSync(file)) throw new Error(`${file} is missing: run npm run build first`);
+  }
+});
+
+afterEach(() => {
+  for (const home of sandboxes.splice(0)) fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('tune-in-claude', () => {
+  // A session: you send a message, claude runs a tool and hands back
+  const SESSION: FakeClaudeStep[] = [
+    { print: '> ' },
+    { input: true },
+    { print: '✻ Pondering… (esc to interrupt)\r\n' },
+    { hook: 'PreToolUse', tool: 'Bash' },
+    { wait: 300 },
+    { hook: 'PostToolUse', tool: 'Bash' },
+    { hook: 'Stop' },
+    { print: 'Done.\r\n' },
+    { wait: 300 },
+    { exit: 0 },
+  ];
+
+  // Answer the prompt once it shows up
+  const sendMessage = (output: string, terminal: pty.IPty) => {
+    if (output.endsWith('> ')) terminal.write('hi\r');
+  };
+
+  it('plays while claude works, pauses when it hands back, and exits with its status', async () => {
+    const box = sandbox();
+    writeScript(box, [...SESSION.slice(0, -1), { exit: 7 }]);
+
+    const { code } = await runInTerminal([TUNE_IN_CLAUDE], box, sendMessage);
+
+    expect(code).toBe(7);
+    // Play once on the message (the hooks that follow don't restart it),
+    // pause on Stop, and pause again on the way out
+    expect(playerCalls(box)).toEqual(['play', 'pause', 'pause']);
+    expect(playerState(box)).toBe('paused');
+  }, 30000);
+
+  it('answers a hook without waiting for the music to fade out', async () => {
+    const box = sandbox({ TUNE_IN_FADE_MS: '3000' });
+    writeScript(box, [
+      { print: 'before\r\n' },
+      { hook: 'Stop' },
+      { print: 'after\r\n' },
+      { wait: 3500 },
+      { exit: 0 },
+    ]);
+
+    const seen: Record<string, number> = {};
+    await runInTerminal([TUNE_IN_CLAUDE], box, output => {
+      for (const word of ['before', 'after']) {
+        if (!(word in seen) && output.includes(word)) seen[word] = Date.now();
+      }
+    });
+
+    // claude carried on while the music faded out
+    expect(seen.after - seen.before).toBeLessThan(1500);
+    expect(playerCalls(box)).toContain('pause');
+  }, 30000);
+
+  it('puts settings.json back byte for byte', async () => {
+    const box = sandbox();
+    writeScript(box, SESSION);
+    const settingsFile = path.join(box.home, '.claude', 'settings.json');
+    // Formatting JSON.stringify wouldn't reproduce
+    const original = '{\n    "model":   "opus",\n\t"permissions": { "allow": ["Bash(npm test)"] }\n}';
+    fs.mkdirSync(path.dirname(settingsFile), { recursive: true });
+    fs.writeFileSync(settingsFile, original);
+
+    let hooked = '';
+    await runInTerminal([TUNE_IN_CLAUDE], box, (output, terminal) => {
+      if (output.endsWith('> ') && !hooked) hooked = fs.readFileSync(settingsFile, 'utf-8');
+      sendMessage(output, terminal);
+    });
+
+    // The hooks were there during the session...
+    expect(JSON.parse(hooked).hooks).toBeDefined();
+    // ...and nothing of them is left after it
+    expect(fs.readFileSync(settingsFile, 'utf-8')).toBe(original);
+  }, 30000);
+
+  it('leaves no settings.json behind when there was none', async () => {
+    const box = sandbox();
+    writeScript(box, SESSION);
+
+    await runInTerminal([TUNE_IN_CLAUDE], box, sendMessage);
+
+    expect(fs.existsSync(path.join(box.home, '.claude', 'settings.json'))).toBe(false);
+    expect(playerCalls(box)[0]).toBe('play');
+  }, 30000);
+
+  it('restores settings.json and exits 143 when terminated', async () => {
+    const box = sandbox();
+    writeScript(box, [{ print: 'ready\r\n' }, { wait: 20000 }, { exit: 0 }]);
+    const settingsFile = path.join(box.home, '.claude', 'settings.json');
+    const original = '{"env":{"FOO":"1"}}\n';
+    fs.mkdirSync(path.dirname(settingsFile), { recursive: true });
+    fs.writeFileSync(settingsFile, original);
+
+    let terminated = false;
+    const { code } = await runInTerminal([TUNE_IN_CLAUDE], box, (output, terminal) => {
+      if (!terminated && output.includes('ready')) {
+        terminated = true;
+        process.kill(terminal.pid, 'SIGTERM');
+      }
+    });
+
+    expect(code).toBe(143);
+    expect(fs.readFileSync(settingsFile, 'utf-8')).toBe(original);
+  }, 30000);
+});
+
+describe('tune-in <command>', () => {
+  it('plays during the command, pauses after, and exits with its status', async () => {
+    const box = sandbox();
+
+    const { code } = await run(['sleep 0.3; exit 3'], box);
+
+    expect(code).toBe(3);
+    expect(playerCalls(box)).toEqual(['play', 'pause']);
+    expect(playerState(box)).toBe('paused');
+  }, 30000);
+
+  it('reports a command killed by a signal as 128 + the signal number', async () => {
+    const box = sandbox();
+
+    const { code } = await run(['kill -TERM $$'], box);
+
+    expect(code).toBe(143);
+    expect(playerCalls(box)).toEqual(['play', 'pause']);
+  }, 30000);
+
+  it('follows completion.rules', async () => {
+    const box = sandbox();
+    fs.writeFileSync(path.join(box.home, '.tune-in.json'), JSON.stringify({
+      completion: { rules: [{ on: 'success', action: 'continue' }, { on: 'failure', action: 'track', uri: 'spotify:track:done' }] },
+    }));
+
+    expect((await run(['true'], box)).code).toBe(0);
+    expect(playerCalls(box)).toEqual(['play']);
+
+    expect((await run(['false'], box)).code).toBe(1);
+    expect(playerCalls(box)).toEqual(['play', 'play', 'playUri']);
+    expect(playerState(box)).toBe('playing');
+  }, 30000);
+});
+
+describe('tune-in --pty <command>', () => {
+  it('pauses while the command asks something and plays once it is answered', async () => {
+    const box = sandbox();
+    // printf builds the prompt so it doesn't show up in the echoed command line
+    const command = 'printf "Overwrite %s? [y/n] " config; read answer; echo "answer: $answer"; sleep 0.5; exit 4';
+
+    let answered = false;
+    const { code, output } = await runInTerminal([TUNE_IN, '--pty', command], box, (output, terminal) => {
+      if (!answered && output.includes('Overwrite config? [y/n] ')) {
+        answered = true;
+        setTimeout(() => terminal.write('y\r'), 1000);
+      }
+    });
+
+    expect(code).toBe(4);
+    expect(output).toContain('answer: y');
+    expect(playerCalls(box)).toEqual(['play', 'pause', 'play', 'pause']);
+  }, 30000);
+
+  it('pauses after command.idleMs without output', async () => {
+    const box = sandbox({ TUNE_IN_COMMAND_IDLE_MS: '700' });
+
+    // Exits right after its output, before it could count as idle again
+    const { code } = await runInTerminal([TUNE_IN, '--pty', 'sleep 2; echo done'], box);
+
+    expect(code).toBe(0);
+    expect(playerCalls(box)).toEqual(['play', 'pause', 'play', 'pause']);
+  }, 30000);
+
+  it('plays again for "continue" after an idle pause', async () => {
+    const box = sandbox({ TUNE_IN_COMMAND_IDLE_MS: '500' });
+    fs.writeFileSync(path.join(box.home, '.tune-in.json'), JSON.stringify({
+      completion: { rules: [{ on: 'success', action: 'continue' }] },
+    }));
+
+    const { code, output } = await runInTerminal([TUNE_IN, '--pty', 'sleep 1.5'], box);
+
+    expect(code).toBe(0);
+    expect(output).toContain('Music playing again');
+    expect(playerCalls(box)).toEqual(['play', 'pause', 'play']);
+    expect(playerState(box)).toBe('playing');
+  }, 30000);
+
+  it('passes Ctrl+C to the command and finishes once', async () => {
+    const box = sandbox();
+
+    let interrupted = false;
+    const { code } = await runInTerminal([TUNE_IN, '--pty', 'printf "wait%s\\n" ing; sleep 10'], box, (output, terminal) => {
+      if (!interrupted && output.includes('waiting')) {
+        interrupted = true;
+        terminal.write('\x03');
+      }
+    });
+
+    expect(code).toBe(130);
+    expect(playerCalls(box)).toEqual(['play', 'pause']);
+  }, 30000);
+});
+
+describe('tune-in daemon', () => {
+  it('plays, pauses and shuffles on request until stopped', async () => {
+    const box = sandbox();
+    const daemon = spawn(process.execPath, [TUNE_IN, 'daemon'], { cwd: box.home, env: box.env, stdio: 'ignore' });
+    const exited = new Promise<number | null>(resolve => daemon.on('exit', code => resolve(code)));
+    try {
+      await waitFor(() => fs.existsSync(path.join(box.home, '.tune-in', 'daemon.pid')));
+      // The pid file is written before the socket listens
+      await waitFor(() => fs.existsSync(path.join(box.home, '.tune-in', 'daemon.sock')));
+
+      expect((await run(['signal', 'start'], box)).code).toBe(0);
+      await waitFor(() => playerCalls(box).includes('play'));
+      expect((await run(['signal', 'stop'], box)).code).toBe(0);
+      await waitFor(() => playerCalls(box).includes('pause'));
+      expect(playerState(box)).toBe('paused');
+      expect((await run(['shuffle', 'on'], box)).code).toBe(0);
+
+      expect((await run(['daemon', 'stop'], box)).code).toBe(0);
+      await exited;
+      expect(fs.existsSync(path.join(box.home, '.tune-in', 'daemon.pid'))).toBe(false);
+      // Shutting down pauses too
+      expect(playerCalls(box)).toEqual(['play', 'pause', 'setShuffle', 'pause']);
+    } finally {
+      daemon.kill();
+    }
+  }, 30000);
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { KeystrokeParser } from '../src/keystrokes';
+import type { KeyEvent } from '../src/keystrokes';
+
+// Feed chunks one after another, the way stdin delivers them
+function feedAll(parser: KeystrokeParser, ...chunks: Array<string | Buffer>): KeyEvent[] {
+  return chunks.flatMap(chunk => parser.feed(chunk));
+}
+
+describe('KeystrokeParser', () => {
+  describe('bracketed paste', () => {
+    it('reports a paste as one event, newlines and all', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('\x1b[200~line one\rline two\x1b[201~')).toEqual([
+        { type: 'paste', chars: 16 },
+      ]);
+    });
+
+    it('joins a paste split across chunks, markers included', () => {
+      const parser = new KeystrokeParser();
+      expect(feedAll(parser, '\x1b[20', '0~hello ', 'world\x1b[2', '01', '~')).toEqual([
+        { type: 'paste', chars: 11 },
+      ]);
+    });
+
+    it('carries on with typing after the paste ends', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('\x1b[200~abc\x1b[201~de\r')).toEqual([
+        { type: 'paste', chars: 3 },
+        { type: 'text', chars: 2 },
+        { type: 'submit' },
+      ]);
+    });
+  });
+
+  describe('escape sequences', () => {
+    it('reads a CSI sequence split across chunks', () => {
+      const parser = new KeystrokeParser();
+      expect(feedAll(parser, '\x1b[1;', '5A')).toEqual([{ type: 'key', name: 'up' }]);
+      expect(feedAll(parser, '\x1b', '[3~')).toEqual([{ type: 'key', name: 'delete' }]);
+    });
+
+    it('reads an SS3 sequence split across chunks', () => {
+      const parser = new KeystrokeParser();
+      expect(feedAll(parser, '\x1bO', 'B')).toEqual([{ type: 'key', name: 'down' }]);
+      expect(feedAll(parser, '\x1b', 'OP')).toEqual([{ type: 'key', name: 'function' }]);
+    });
+
+    it('reads Shift+Enter as a line break', () => {
+      const parser = new KeystrokeParser();
+      expect(feedAll(parser, '\x1b[13;2u', '\x1b[27;2;', '13~')).toEqual([
+        { type: 'newline' },
+        { type: 'newline' },
+      ]);
+    });
+
+    it('holds a lone ESC until it is flushed', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('\x1b')).toEqual([]);
+      expect(parser.holding).toBe(true);
+      expect(parser.flush()).toEqual([{ type: 'key', name: 'escape' }]);
+      expect(parser.holding).toBe(false);
+      expect(parser.flush()).toEqual([]);
+    });
+
+    it('flushes an unfinished sequence as Escape followed by what was typed', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('\x1b[')).toEqual([]);
+      expect(parser.flush()).toEqual([
+        { type: 'key', name: 'escape' },
+        { type: 'text', chars: 1 },
+      ]);
+    });
+
+    it('does not hold anything back inside a paste', () => {
+      const parser = new KeystrokeParser();
+      parser.feed('\x1b[200~abc\x1b');
+      expect(parser.holding).toBe(false);
+      expect(parser.flush()).toEqual([]);
+      expect(parser.feed('[201~')).toEqual([{ type: 'paste', chars: 3 }]);
+    });
+  });
+
+  describe('UTF-8', () => {
+    it('counts a character split mid-codepoint once', () => {
+      const parser = new KeystrokeParser();
+      const bytes = Buffer.from('é🎵', 'utf-8');
+      expect(feedAll(parser, bytes.subarray(0, 1), bytes.subarray(1, 4), bytes.subarray(4))).toEqual([
+        { type: 'text', chars: 1 },
+        { type: 'text', chars: 1 },
+      ]);
+    });
+
+    it('counts a split character inside a paste', () => {
+      const parser = new KeystrokeParser();
+      const bytes = Buffer.from('\x1b[200~日本\x1b[201~', 'utf-8');
+      expect(feedAll(parser, bytes.subarray(0, 8), bytes.subarray(8))).toEqual([
+        { type: 'paste', chars: 2 },
+      ]);
+    });
+  });
+
+  describe('Ctrl+C and Enter', () => {
+    it('reports them as keys outside a paste', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('hi\x03\r')).toEqual([
+        { type: 'text', chars: 2 },
+        { type: 'key', name: 'ctrl-c' },
+        { type: 'submit' },
+      ]);
+    });
+
+    it('reads "\\" then Enter as a line break', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('a\\\r')).toEqual([{ type: 'text', chars: 2 }, { type: 'newline' }]);
+    });
+
+    it('treats them as pasted content inside a paste', () => {
+      const parser = new KeystrokeParser();
+      expect(parser.feed('\x1b[200~a\x03\rb\x1b[201~')).toEqual([{ type: 'paste', chars: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MpdError, sendMpdCommands } from '../src/mpd';
+import type { MpdOptions } from '../src/mpd';
+
+// Answers each command line with what reply() returns, hanging up after an
+// answer that doesn't end in OK or ACK; null hangs up without answering
+type Reply = (command: string) => string | null;
+
+describe('sendMpdCommands', () => {
+  let server: net.Server;
+  let options: MpdOptions;
+  let received: string[];
+  let reply: Reply;
+
+  beforeEach(async () => {
+    received = [];
+    server = net.createServer(socket => {
+      socket.write('OK MPD 0.23.5\n');
+      let buffer = '';
+      socket.on('data', data => {
+        buffer += data.toString('utf-8');
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const command = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+          received.push(command);
+          if (command === 'close') {
+            socket.end();
+            return;
+          }
+          const answer = reply(command);
+          if (answer === null) {
+            socket.destroy();
+            return;
+          }
+          socket.write(answer);
+          if (!/(^|\n)(OK|ACK [^\n]*)\n$/.test(answer)) {
+            socket.end();
+            return;
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    options = { host: '127.0.0.1', port: (server.address() as AddressInfo).port };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('returns one parsed response per command', async () => {
+    reply = command => (command === 'status' ? 'state: play\nvolume: 40\nOK\n' : 'OK\n');
+
+    const responses = await sendMpdCommands({ ...options, password: 'se"cret' }, ['status', 'pause 1']);
+
+    expect(responses).toEqual([{ state: 'play', volume: '40' }, {}]);
+    expect(received).toEqual(['password "se\\"cret"', 'status', 'pause 1']);
+  });
+
+  it('stops at the first ACK', async () => {
+    reply = command => (command === 'play' ? 'ACK [50@0] {play} No such song\n' : 'OK\n');
+
+    const error = await sendMpdCommands(options, ['play', 'status']).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(MpdError);
+    expect(error).toMatchObject({ message: '[50@0] {play} No such song', command: 'play' });
+    expect(received).toEqual(['play']);
+  });
+
+  it('fails when MPD hangs up partway through a reply', async () => {
+    reply = command => (command === 'status' ? 'state: play\n' : 'OK\n');
+
+    const started = Date.now();
+    const error = await sendMpdCommands(options, ['currentsong', 'status']).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(MpdError);
+    expect(error.command).toBe('status');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('fails when MPD hangs up instead of answering', async () => {
+    reply = () => null;
+
+    await expect(sendMpdCommands(options, ['status'])).rejects.toThrow('MPD closed the connection before replying');
+  });
+});
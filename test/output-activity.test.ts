@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { OutputActivityDetector, commandActivityOptionsFromSettings, compilePatterns, stripTerminalOutput } from '../src/output-activity';
+import type { OutputActivity, OutputActivityOptions } from '../src/output-activity';
+import { SCHEMA } from '../src/settings';
+import type { Settings } from '../src/settings';
+
+/**
+ * A PTY transcript: what claude wrote, chunk by chunk, and when (ms from
+ * the start)
+ */
+interface Transcript {
+  description: string;
+  chunks: Array<{ at: number; data: string }>;
+}
+
+function loadTranscript(name: string): Transcript {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'pty', `${name}.json`), 'utf-8'));
+}
+
+// The patterns tune-in ships with
+function defaultOptions(overrides: Partial<OutputActivityOptions> = {}): OutputActivityOptions {
+  return {
+    workingPatterns: compilePatterns(SCHEMA['output.workingPatterns'].default as string[]),
+    waitingPatterns: compilePatterns(SCHEMA['output.waitingPatterns'].default as string[]),
+    quietMs: SCHEMA['output.quietMs'].default as number,
+    ...overrides,
+  };
+}
+
+// Every change of activity while the transcript plays
+function replay(detector: OutputActivityDetector, transcript: Transcript): Array<{ at: number; activity: OutputActivity }> {
+  const changes: Array<{ at: number; activity: OutputActivity }> = [];
+  for (const { at, data } of transcript.chunks) {
+    const activity = detector.feed(data, at);
+    if (activity) changes.push({ at, activity });
+  }
+  return changes;
+}
+
+function lastChunkAt(transcript: Transcript): number {
+  return transcript.chunks[transcript.chunks.length - 1].at;
+}
+
+describe('stripTerminalOutput', () => {
+  it('drops colors and turns cursor moves into spaces', () => {
+    expect(stripTerminalOutput('\x1b[38;2;215;119;87mP\x1b[38;2;235;159;127mon\x1b[39m\x1b[2Kder')).toBe('Pon der');
+  });
+});
+
+describe('OutputActivityDetector', () => {
+  it('follows the spinner, then waits once it has been gone for quietMs', () => {
+    const transcript = loadTranscript('spinner');
+    const detector = new OutputActivityDetector(defaultOptions());
+
+    expect(replay(detector, transcript)).toEqual([{ at: 400, activity: 'working' }]);
+
+    // The last spinner frame; the answer and the prompt come after it
+    const lastFrame = transcript.chunks.filter(chunk => chunk.data.includes('esc to interrupt')).pop()!.at;
+    expect(detector.tick(lastFrame + 1999)).toBeNull();
+    expect(detector.tick(lastFrame + 2000)).toBe('waiting');
+    expect(detector.activity).toBe('waiting');
+  });
+
+  it('honours a shorter quietMs, ticked between frames', () => {
+    const transcript = loadTranscript('spinner');
+    const detector = new OutputActivityDetector(defaultOptions({ quietMs: 100 }));
+    const [first, second] = transcript.chunks.filter(chunk => chunk.data.includes('esc to interrupt'));
+
+    expect(detector.feed(first.data, first.at)).toBe('working');
+    // Frames are 120ms apart, so the gap is long enough to count as done...
+    expect(detector.tick(first.at + 99)).toBeNull();
+    expect(detector.tick(first.at + 100)).toBe('waiting');
+    // ...until the next frame shows up
+    expect(detector.feed(second.data, second.at)).toBe('working');
+  });
+
+  it('waits on a permission dialog straight away and works again once it is answered', () => {
+    const transcript = loadTranscript('permission-dialog');
+    const detector = new OutputActivityDetector(defaultOptions());
+
+    expect(replay(detector, transcript)).toEqual([
+      { at: 0, activity: 'working' },
+      { at: 320, activity: 'waiting' },
+      { at: 5400, activity: 'working' },
+    ]);
+  });
+
+  it('stays waiting while the prompt sits idle', () => {
+    const transcript = loadTranscript('idle-prompt');
+    const detector = new OutputActivityDetector(defaultOptions());
+
+    expect(replay(detector, transcript)).toEqual([]);
+    expect(detector.tick(lastChunkAt(transcript) + 60000)).toBeNull();
+    expect(detector.activity).toBe('waiting');
+  });
+
+  it('matches patterns cut across chunks, mid-word and mid-escape', () => {
+    const transcript = loadTranscript('split-patterns');
+    const detector = new OutputActivityDetector(defaultOptions());
+
+    expect(replay(detector, transcript)).toEqual([
+      { at: 40, activity: 'working' },
+      { at: 930, activity: 'waiting' },
+      { at: 4030, activity: 'working' },
+    ]);
+    expect(detector.tick(4030 + 2000)).toBe('waiting');
+  });
+
+  it('counts as working from start() until quietMs passes without a spinner', () => {
+    const detector = new OutputActivityDetector(defaultOptions({ quietMs: 500 }));
+    detector.start(1000);
+
+    expect(detector.activity).toBe('working');
+    expect(detector.feed('compiling...\r\n', 1200)).toBeNull();
+    expect(detector.tick(1499)).toBeNull();
+    expect(detector.tick(1500)).toBe('waiting');
+  });
+});
+
+describe('OutputActivityDetector for tune-in --pty', () => {
+  // The command.* settings tune-in ships with
+  function commandOptions(idleMs = SCHEMA['command.idleMs'].default as number): OutputActivityOptions {
+    return commandActivityOptionsFromSettings({
+      command: {
+        pty: true,
+        idleMs,
+        promptPatterns: SCHEMA['command.promptPatterns'].default as string[],
+        settlePatterns: SCHEMA['command.settlePatterns'].default as string[],
+      },
+    } as Settings);
+  }
+
+  // Music starts with the command, before it prints anything
+  function started(options: OutputActivityOptions): OutputActivityDetector {
+    const detector = new OutputActivityDetector(options);
+    detector.start(0);
+    return detector;
+  }
+
+  it('waits on a prompt and works again once it is answered', () => {
+    const transcript = loadTranscript('command-prompt');
+    const detector = started(commandOptions());
+
+    expect(replay(detector, transcript)).toEqual([
+      { at: 430, activity: 'waiting' },
+      { at: 8000, activity: 'working' },
+    ]);
+  });
+
+  it('waits once a dev server settles, without the lines under its banner waking it', () => {
+    const transcript = loadTranscript('command-settle');
+    const detector = started(commandOptions());
+
+    expect(replay(detector, transcript)).toEqual([
+      { at: 700, activity: 'waiting' },
+      { at: 60000, activity: 'working' },
+    ]);
+  });
+
+  it('counts any output as working and waits after idleMs of silence', () => {
+    const detector = started(commandOptions(1000));
+
+    expect(detector.tick(999)).toBeNull();
+    expect(detector.feed('  5 files\r\n', 999)).toBeNull();
+    expect(detector.tick(1998)).toBeNull();
+    expect(detector.tick(1999)).toBe('waiting');
+    // Cursor moves and colors alone aren't output
+    expect(detector.feed('\x1b[2K\x1b[G\x1b[0m', 2500)).toBeNull();
+    expect(detector.feed('.', 2600)).toBe('working');
+  });
+
+  it('never times out with idleMs 0', () => {
+    const transcript = loadTranscript('command-settle');
+    const detector = started(commandOptions(0));
+
+    expect(detector.tick(24 * 60 * 60 * 1000)).toBeNull();
+    expect(replay(detector, transcript)[0]).toEqual({ at: 700, activity: 'waiting' });
+  });
+});
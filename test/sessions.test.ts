@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FakePlayer } from '../src/fake-player';
+import { SessionArbiter, SessionRegistry } from '../src/sessions';
+import { PlaybackController } from '../src/transitions';
+import type { TransitionOptions } from '../src/transitions';
+
+const HARD: TransitionOptions = { mode: 'pause', duckVolume: 20, fadeMs: 0, curve: 'linear' };
+
+describe('SessionArbiter', () => {
+  let dir: string;
+  let player: FakePlayer;
+
+  // A session as one tune-in-claude runs it: its own registry entry and
+  // controller, the shared player. The pid only has to be alive.
+  const session = (pid: number) => new SessionArbiter(new PlaybackController(player, HARD), new SessionRegistry(pid, dir));
+  const calls = () => player.snapshot().calls.map(call => call.method);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tune-in-sessions-'));
+    player = new FakePlayer({ file: path.join(dir, 'player.json') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pauses only once the last active session goes idle', async () => {
+    const a = session(process.pid);
+    const b = session(process.ppid);
+
+    await a.play();
+    await b.play();
+    await a.pause();
+    expect(player.snapshot().state).toBe('playing');
+    await b.pause();
+
+    expect(player.snapshot().state).toBe('paused');
+    expect(calls()).toEqual(['play', 'pause']);
+  });
+
+  it('plays again for a session whose music another session paused', async () => {
+    const a = session(process.pid);
+    const b = session(process.ppid);
+
+    await a.play();
+    await b.play();
+    await a.pause();
+    await b.pause();
+    await a.play();
+
+    expect(player.snapshot().state).toBe('playing');
+    expect(calls()).toEqual(['play', 'pause', 'play']);
+  });
+
+  it('leaves music alone that is already playing', async () => {
+    const a = session(process.pid);
+    const b = session(process.ppid);
+
+    await a.play();
+    await b.play();
+    await b.pause();
+    await a.play();
+
+    expect(calls()).toEqual(['play']);
+  });
+});
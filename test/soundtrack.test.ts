@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { buildSoundtracks, soundtrackToM3u, soundtrackToUris, spotifyTrackUri } from '../src/soundtrack';
+import type { Soundtrack } from '../src/soundtrack';
+import type { ActivityEvent, LoggedEvent } from '../src/events';
+
+const at = (session: string, t: number, event: ActivityEvent): LoggedEvent => ({ t, session, ...event });
+
+describe('buildSoundtracks', () => {
+  it('notes the turn, and what Claude was doing, for each track', () => {
+    const [soundtrack, ...rest] = buildSoundtracks([
+      at('a', 1000, { kind: 'session-start', source: 'claude', cwd: '/work' }),
+      at('a', 2000, { kind: 'track', name: 'Intro', artist: 'Band', uri: 'spotify:track:1' }),
+      at('a', 3000, { kind: 'working' }),
+      at('a', 4000, { kind: 'tool-start', tool: 'Bash' }),
+      at('a', 5000, { kind: 'track', name: 'Build', artist: 'Band' }),
+      at('a', 6000, { kind: 'tool-end', tool: 'Bash' }),
+      at('a', 7000, { kind: 'track', name: 'Think', artist: 'Band' }),
+      at('a', 8000, { kind: 'your-turn' }),
+      at('a', 9000, { kind: 'track', name: 'Read', artist: 'Band' }),
+      at('a', 10000, { kind: 'tool-start', tool: 'Edit' }),
+      at('a', 11000, { kind: 'track', name: 'Again', artist: 'Band' }),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(soundtrack).toMatchObject({ session: 'a', start: 1000, cwd: '/work', command: null });
+    expect(soundtrack.tracks.map(({ name, uri, turn, claudeWorking, tool }) => ({ name, uri, turn, claudeWorking, tool }))).toEqual([
+      { name: 'Intro', uri: 'spotify:track:1', turn: 0, claudeWorking: false, tool: null },
+      { name: 'Build', uri: null, turn: 1, claudeWorking: true, tool: 'Bash' },
+      { name: 'Think', uri: null, turn: 1, claudeWorking: true, tool: null },
+      { name: 'Read', uri: null, turn: 1, claudeWorking: false, tool: null },
+      { name: 'Again', uri: null, turn: 2, claudeWorking: true, tool: 'Edit' },
+    ]);
+  });
+
+  it('keeps interleaved sessions apart and drops those without tracks', () => {
+    const soundtracks = buildSoundtracks([
+      at('a', 1000, { kind: 'working' }),
+      at('b', 1500, { kind: 'session-start', source: 'daemon', cwd: '/other' }),
+      at('c', 1600, { kind: 'working' }),
+      at('b', 2000, { kind: 'track', name: 'B side', artist: 'Band' }),
+      at('a', 3000, { kind: 'track', name: 'A side', artist: 'Band' }),
+    ]);
+
+    expect(soundtracks.map(soundtrack => [soundtrack.session, soundtrack.tracks.map(track => [track.name, track.claudeWorking])])).toEqual([
+      ['a', [['A side', true]]],
+      ['b', [['B side', false]]],
+    ]);
+  });
+});
+
+describe('spotifyTrackUri', () => {
+  it('accepts track URIs and open.spotify.com links', () => {
+    expect(spotifyTrackUri('spotify:track:4uLU6hMCjMI75M1A2tKUQC')).toBe('spotify:track:4uLU6hMCjMI75M1A2tKUQC');
+    expect(spotifyTrackUri('https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC?si=abc')).toBe('spotify:track:4uLU6hMCjMI75M1A2tKUQC');
+    expect(spotifyTrackUri('https://open.spotify.com/intl-de/track/4uLU6hMCjMI75M1A2tKUQC')).toBe('spotify:track:4uLU6hMCjMI75M1A2tKUQC');
+  });
+
+  it('turns down anything that is not a Spotify track', () => {
+    expect(spotifyTrackUri(null)).toBeNull();
+    expect(spotifyTrackUri('spotify:episode:512ojhOuo1ktJprKbVcKyQ')).toBeNull();
+    expect(spotifyTrackUri('https://open.spotify.com/album/1DFixLWuPkv3KT3TnV35m3')).toBeNull();
+    expect(spotifyTrackUri('/home/me/Music/song.mp3')).toBeNull();
+  });
+});
+
+describe('soundtrack export', () => {
+  const soundtrack = (tracks: Array<{ name: string; artist: string; uri: string | null }>): Soundtrack => ({
+    session: 'a',
+    start: 0,
+    cwd: null,
+    command: null,
+    tracks: tracks.map(track => ({ ...track, playedAt: 0, turn: 1, claudeWorking: true, tool: null })),
+  });
+
+  it('writes an extended M3U of the tracks it can point at', () => {
+    const lines = soundtrackToM3u(soundtrack([
+      { name: 'One', artist: 'Band', uri: '/music/one.mp3' },
+      { name: 'Gone', artist: 'Band', uri: null },
+      { name: 'Stream', artist: '', uri: 'https://radio.example/stream' },
+    ])).split('\n');
+
+    expect(lines[0]).toBe('#EXTM3U');
+    expect(lines[1]).toMatch(/^#PLAYLIST:tune-in /);
+    expect(lines.slice(2)).toEqual([
+      '#EXTINF:-1,Band - One',
+      '/music/one.mp3',
+      '#EXTINF:-1,Stream',
+      'https://radio.example/stream',
+      '',
+    ]);
+  });
+
+  it('lists only Spotify tracks as URIs', () => {
+    expect(soundtrackToUris(soundtrack([
+      { name: 'One', artist: 'Band', uri: 'https://open.spotify.com/track/abc123' },
+      { name: 'Two', artist: 'Band', uri: '/music/two.mp3' },
+      { name: 'Three', artist: 'Band', uri: 'spotify:track:def456' },
+    ]))).toBe('spotify:track:abc123\nspotify:track:def456\n');
+    expect(soundtrackToUris(soundtrack([{ name: 'Two', artist: 'Band', uri: '/music/two.mp3' }]))).toBe('');
+  });
+});
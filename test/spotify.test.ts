@@ -0,0 +1,152 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SpotifyApiError, SpotifyClient } from '../src/spotify';
+import type { SpotifyClientOptions } from '../src/spotify';
+import type { CredentialStore, Credentials } from '../src/credentials';
+
+interface Reply {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Received {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: string;
+}
+
+// What the server answers each "METHOD /path" with, in order; the last
+// reply repeats
+type Routes = Record<string, Reply[]>;
+
+describe('SpotifyClient', () => {
+  let server: http.Server;
+  let base: string;
+  let routes: Routes;
+  let received: Received[];
+  let credentials: Credentials;
+
+  const memoryStore = (): CredentialStore => ({
+    id: 'env',
+    load: () => ({ ...credentials }),
+    save: saved => { credentials = { ...saved }; },
+    clear: () => false,
+  });
+
+  const client = (options: SpotifyClientOptions = {}) => new SpotifyClient(memoryStore(), { apiUrl: `${base}/v1`, ...options });
+  const requests = () => received.map(request => `${request.method} ${request.path}`);
+
+  beforeEach(async () => {
+    routes = {};
+    received = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const key = `${req.method} ${req.url}`;
+        received.push({ method: req.method!, path: req.url!, authorization: req.headers.authorization, body });
+        const replies = routes[key];
+        const reply = replies && (replies.length > 1 ? replies.shift()! : replies[0]);
+        if (!reply) {
+          res.writeHead(500).end();
+          return;
+        }
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    credentials = {
+      accessToken: 'old-token',
+      refreshToken: 'refresh-1',
+      expiresAt: Date.now() + 60 * 60 * 1000,
+      clientId: 'client',
+      tokenUrl: `${base}/token`,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('refreshes the token once on a 401 and retries with the new one', async () => {
+    routes['PUT /v1/me/player/pause'] = [{ status: 401 }, { status: 204 }];
+    routes['POST /token'] = [{ status: 200, body: { access_token: 'new-token', refresh_token: 'refresh-2', expires_in: 3600 } }];
+
+    await client().pause();
+
+    expect(requests()).toEqual(['PUT /v1/me/player/pause', 'POST /token', 'PUT /v1/me/player/pause']);
+    expect(received[0].authorization).toBe('Bearer old-token');
+    expect(received[2].authorization).toBe('Bearer new-token');
+    expect(new URLSearchParams(received[1].body).get('refresh_token')).toBe('refresh-1');
+    expect(credentials.refreshToken).toBe('refresh-2');
+  });
+
+  it('gives up after a second 401', async () => {
+    routes['GET /v1/me/player/devices'] = [{ status: 401, body: { error: { message: 'Invalid access token' } } }];
+    routes['POST /token'] = [{ status: 200, body: { access_token: 'new-token', expires_in: 3600 } }];
+
+    await expect(client().getDevices()).rejects.toMatchObject({ status: 401 });
+    expect(requests()).toEqual(['GET /v1/me/player/devices', 'POST /token', 'GET /v1/me/player/devices']);
+  });
+
+  it('waits as long as Retry-After says before retrying a 429', async () => {
+    routes['PUT /v1/me/player/pause'] = [{ status: 429, headers: { 'Retry-After': '1' } }, { status: 204 }];
+
+    const started = Date.now();
+    await client().pause();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+    expect(requests()).toEqual(['PUT /v1/me/player/pause', 'PUT /v1/me/player/pause']);
+  });
+
+  it('gives up rather than wait longer than maxRetryAfterMs', async () => {
+    routes['GET /v1/me/player/devices'] = [{ status: 429, headers: { 'Retry-After': '60' }, body: { error: { message: 'API rate limit exceeded' } } }];
+
+    const started = Date.now();
+    const error = await client({ maxRetryAfterMs: 5000 }).getDevices().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error.status).toBe(429);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(requests()).toEqual(['GET /v1/me/player/devices']);
+  });
+
+  it('moves playback to another device when the last one went away', async () => {
+    routes['PUT /v1/me/player/play'] = [{ status: 404, body: { error: { message: 'Device not found', reason: 'NO_ACTIVE_DEVICE' } } }];
+    routes['GET /v1/me/player/devices'] = [{
+      status: 200,
+      body: {
+        devices: [
+          { id: 'speaker', name: 'Kitchen', type: 'Speaker', is_active: false, is_restricted: true, volume_percent: 50 },
+          { id: 'laptop', name: 'Laptop', type: 'Computer', is_active: false, is_restricted: false, volume_percent: 80 },
+          { id: 'phone', name: 'Phone', type: 'Smartphone', is_active: false, is_restricted: false, volume_percent: 30 },
+        ],
+      },
+    }];
+    routes['PUT /v1/me/player'] = [{ status: 204 }];
+    routes['PUT /v1/me/player/play?device_id=phone'] = [{ status: 204 }];
+
+    await client({ preferredDevice: 'phone' }).play({ contextUri: 'spotify:playlist:focus' });
+
+    expect(requests()).toEqual([
+      'PUT /v1/me/player/play',
+      'GET /v1/me/player/devices',
+      'PUT /v1/me/player',
+      'PUT /v1/me/player/play?device_id=phone',
+    ]);
+    expect(JSON.parse(received[2].body)).toEqual({ device_ids: ['phone'], play: false });
+    expect(JSON.parse(received[3].body)).toEqual({ context_uri: 'spotify:playlist:focus' });
+  });
+
+  it('passes the 404 on when there is no other device', async () => {
+    routes['PUT /v1/me/player/play'] = [{ status: 404, body: { error: { message: 'Device not found', reason: 'NO_ACTIVE_DEVICE' } } }];
+    routes['GET /v1/me/player/devices'] = [{ status: 200, body: { devices: [] } }];
+
+    await expect(client().play()).rejects.toMatchObject({ status: 404, reason: 'NO_ACTIVE_DEVICE' });
+  });
+});
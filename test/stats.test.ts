@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { computeStats, formatDuration, statsToCsv } from '../src/stats';
+import type { ActivityEvent, LoggedEvent } from '../src/events';
+
+const DAY_ONE = new Date(2026, 0, 5, 9, 0).getTime();
+const DAY_TWO = new Date(2026, 0, 6, 9, 0).getTime();
+
+const at = (session: string, t: number, event: ActivityEvent): LoggedEvent => ({ t, session, ...event });
+
+// Two turns with a tool call each, waiting on you before, between and after
+const first: LoggedEvent[] = [
+  at('a', DAY_ONE, { kind: 'session-start', source: 'claude', cwd: '/work, home' }),
+  at('a', DAY_ONE + 10000, { kind: 'working' }),
+  at('a', DAY_ONE + 12000, { kind: 'tool-start', tool: 'Bash' }),
+  at('a', DAY_ONE + 20000, { kind: 'tool-end', tool: 'Bash' }),
+  at('a', DAY_ONE + 30000, { kind: 'your-turn' }),
+  at('a', DAY_ONE + 40000, { kind: 'working' }),
+  at('a', DAY_ONE + 41000, { kind: 'tool-start', tool: 'Read' }),
+  at('a', DAY_ONE + 42000, { kind: 'tool-end', tool: 'Read' }),
+  at('a', DAY_ONE + 50000, { kind: 'your-turn' }),
+  at('a', DAY_ONE + 60000, { kind: 'session-end', exitCode: 0 }),
+];
+
+// A tool call starts the turn, and the session ends mid-turn
+const second: LoggedEvent[] = [
+  at('b', DAY_TWO, { kind: 'session-start', source: 'command', cwd: '/work', command: 'npm run "build"' }),
+  at('b', DAY_TWO + 5000, { kind: 'tool-start', tool: 'Edit' }),
+  at('b', DAY_TWO + 65000, { kind: 'tool-end', tool: 'Edit' }),
+];
+
+describe('computeStats', () => {
+  it('splits each session into working and waiting time', () => {
+    const { sessions } = computeStats([...second, ...first]);
+
+    expect(sessions.map(session => session.session)).toEqual(['a', 'b']);
+    expect(sessions[0]).toMatchObject({
+      source: 'claude',
+      cwd: '/work, home',
+      command: null,
+      start: DAY_ONE,
+      end: DAY_ONE + 60000,
+      workingMs: 30000,
+      waitingMs: 30000,
+      turns: 2,
+      toolCalls: 2,
+      longestTool: { session: 'a', tool: 'Bash', start: DAY_ONE + 12000, durationMs: 8000 },
+    });
+    expect(sessions[1]).toMatchObject({ source: 'command', workingMs: 60000, waitingMs: 5000, turns: 1, toolCalls: 1 });
+  });
+
+  it('totals sessions by the day they started on', () => {
+    const { days } = computeStats([...first, ...second]);
+
+    expect(days).toEqual([
+      { day: '2026-01-05', sessions: 1, workingMs: 30000, waitingMs: 30000, turns: 2, toolCalls: 2 },
+      { day: '2026-01-06', sessions: 1, workingMs: 60000, waitingMs: 5000, turns: 1, toolCalls: 1 },
+    ]);
+  });
+
+  it('ranks the longest tool calls across sessions', () => {
+    const { longestTools } = computeStats([...first, ...second], { top: 2 });
+
+    expect(longestTools.map(run => [run.tool, run.durationMs])).toEqual([['Edit', 60000], ['Bash', 8000]]);
+  });
+
+  it('leaves out sessions that ended before since', () => {
+    const { sessions, days } = computeStats([...first, ...second], { since: DAY_ONE + 60001 });
+
+    expect(sessions.map(session => session.session)).toEqual(['b']);
+    expect(days.map(day => day.day)).toEqual(['2026-01-06']);
+  });
+
+  it('ignores a tool that ends without having started', () => {
+    const { sessions, longestTools } = computeStats([
+      at('c', DAY_ONE, { kind: 'working' }),
+      at('c', DAY_ONE + 1000, { kind: 'tool-end', tool: 'Bash' }),
+    ]);
+
+    expect(sessions[0]).toMatchObject({ toolCalls: 0, longestTool: null, workingMs: 1000 });
+    expect(longestTools).toEqual([]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the two largest units', () => {
+    expect(formatDuration(4499)).toBe('4s');
+    expect(formatDuration(59000)).toBe('59s');
+    expect(formatDuration(61000)).toBe('1m 01s');
+    expect(formatDuration(65 * 60 * 1000)).toBe('1h 05m');
+  });
+});
+
+describe('statsToCsv', () => {
+  const stats = computeStats([...first, ...second]);
+
+  it('writes one row per day', () => {
+    expect(statsToCsv(stats, 'day')).toBe(
+      'day,sessions,working_s,waiting_s,turns,tool_calls\n'
+      + '2026-01-05,1,30,30,2,2\n'
+      + '2026-01-06,1,60,5,1,1\n'
+    );
+  });
+
+  it('writes one row per session, quoting what needs it', () => {
+    const [header, ...rows] = statsToCsv(stats, 'session').trimEnd().split('\n');
+
+    expect(header).toBe('session,source,start,end,cwd,command,working_s,waiting_s,turns,tool_calls,longest_tool,longest_tool_s');
+    expect(rows).toEqual([
+      `a,claude,${new Date(DAY_ONE).toISOString()},${new Date(DAY_ONE + 60000).toISOString()},"/work, home",,30,30,2,2,Bash,8`,
+      `b,command,${new Date(DAY_TWO).toISOString()},${new Date(DAY_TWO + 65000).toISOString()},/work,"npm run ""build""",60,5,1,1,Edit,60`,
+    ]);
+  });
+});